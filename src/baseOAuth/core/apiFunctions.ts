@@ -1,4 +1,16 @@
-import { VectorizeAPIConfig, ConnectorConfig, UserAction } from "../types";
+import {
+  VectorizeAPIConfig,
+  ConnectorConfig,
+  ConnectorUser,
+  UserAction,
+  BulkUserOperation,
+  BulkManageUsersOptions,
+  BulkManageUsersReport,
+  RequestOptions,
+  SourceConnector,
+  SourceConnectorUpdate
+} from "../types";
+import { DEFAULT_PLATFORM_URL, OneTimeConnectorToken, VectorizeClient } from "./client";
 
 /**
  * Create a connector source via the Vectorize API.
@@ -6,40 +18,96 @@ import { VectorizeAPIConfig, ConnectorConfig, UserAction } from "../types";
  * @param config - An object containing your organization ID and authorization token
  * @param connector - Connector configuration including name, type, and optional config
  * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
  *
  * @returns A Promise that resolves with the connector ID that is created
  */
 export async function createSourceConnector(
   config: VectorizeAPIConfig,
   connector: ConnectorConfig,
-  platformUrl: string = "https://api.vectorize.io/v1",
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
 ): Promise<string> {
-  const url = `${platformUrl}/org/${config.organizationId}/connectors/sources`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${config.authorization}`
-    },
-    body: JSON.stringify(connector),
-  });
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).connectors.create(connector, options);
+}
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Failed to create connector. Status: ${response.status}, Error: ${errorData.error || JSON.stringify(errorData)}`);
-  }
+/**
+ * Lists the source connectors of an organization via the Vectorize API.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param types - Optional connector types to return, e.g. `[GoogleDriveConnectorType.VECTORIZE]`
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves with the source connectors
+ */
+export async function listSourceConnectors<TType extends string = string>(
+  config: VectorizeAPIConfig,
+  types?: TType[],
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<SourceConnector<TType>[]> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).connectors.list(types, options);
+}
 
-  // Parse response JSON
-  const data = (await response.json());
+/**
+ * Gets a source connector via the Vectorize API.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param connectorId - ID of the connector
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves with the source connector
+ */
+export async function getSourceConnector<TType extends string = string>(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<SourceConnector<TType>> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).connectors.get<TType>(connectorId, options);
+}
 
-  // Get the connector ID from the response
-  const connectorId = data?.connector?.id;
-  if (!connectorId) {
-    throw new Error("No connector ID found in the response.");
-  }
+/**
+ * Updates a source connector via the Vectorize API, e.g. to rename it
+ * or to rotate the OAuth credentials of a white label connector.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param connectorId - ID of the connector
+ * @param update - New name and/or configuration fields
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves with the updated source connector
+ */
+export async function updateSourceConnector<TType extends string = string>(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  update: SourceConnectorUpdate,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<SourceConnector<TType>> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).connectors.update<TType>(connectorId, update, options);
+}
 
-  return connectorId;
+/**
+ * Deletes a source connector via the Vectorize API.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param connectorId - ID of the connector
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves once the connector is deleted
+ */
+export async function deleteSourceConnector(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<void> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).connectors.delete(connectorId, options);
 }
 
 /**
@@ -51,6 +119,7 @@ export async function createSourceConnector(
  * @param action Action to perform ("add", "edit", or "remove")
  * @param payload Additional payload for the request (varies by connector type)
  * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
  * @returns Promise that resolves with the API response
  */
 export async function manageUser(
@@ -59,47 +128,87 @@ export async function manageUser(
   userId: string,
   action: UserAction,
   payload: Record<string, any> = {},
-  platformUrl: string = "https://api.vectorize.io/v1",
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
 ): Promise<Response> {
-  const url = `${platformUrl}/org/${config.organizationId}/connectors/sources/${connectorId}/users/`;
-
-  let method: string;
-  
-  switch (action) {
-    case "add":
-      method = "POST";
-      break;
-    case "edit":
-      method = "PATCH";
-      break;
-    case "remove":
-      method = "DELETE";
-      break;
-    default:
-      throw new Error("Invalid action");
-  }
-
-  // Create the base payload with userId
-  const requestPayload = { 
-    userId,
-    ...payload
-  };
+  return new VectorizeClient({ ...config, baseUrl: platformUrl })
+    .users.manage(connectorId, userId, action, payload, options);
+}
 
-  const response = await fetch(url, {
-    method: method,
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${config.authorization}`
-    },
-    body: JSON.stringify(requestPayload),
-  });
+/**
+ * Adds, edits or removes many users of a connector with bounded concurrency and an optional rate limit.
+ * Works for every connector type; each operation carries the payload manageUser would take.
+ * Failures don't stop the run, and the report's checkpoint can be passed back to resume it.
+ *
+ * @example
+ * const report = await bulkManageUsers(config, connectorId, users.map(user => ({
+ *   userId: user.id,
+ *   action: "add",
+ *   payload: { selectedFiles: user.selectedFiles, refreshToken: user.refreshToken }
+ * })), undefined, { concurrency: 4, requestsPerSecond: 10 });
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param operations Users to add, edit or remove
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Concurrency, rate limit, checkpoint to resume from, abort signal and per-request timeout
+ * @returns Promise that resolves with the per-operation report
+ */
+export async function bulkManageUsers(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  operations: BulkUserOperation[],
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: BulkManageUsersOptions,
+): Promise<BulkManageUsersReport> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).users.bulk(connectorId, operations, options);
+}
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Failed to manage user. Status: ${response.status}, Error: ${errorData.error || JSON.stringify(errorData)}`);
-  }
+/**
+ * Iterates over all users of a connector, fetching further pages as needed
+ *
+ * @example
+ * for await (const user of listConnectorUsers(config, connectorId)) {
+ *   console.log(user.userId, Object.keys(user.selectedFiles || {}));
+ * }
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param pageSize Optional number of users fetched per request
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout of each page request
+ * @returns An async iterator over the users
+ */
+export function listConnectorUsers(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  pageSize?: number,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): AsyncIterableIterator<ConnectorUser> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).users.list(connectorId, pageSize, options);
+}
 
-  return response;
+/**
+ * Gets a user of a connector with their current selection:
+ * selectedFiles for Google Drive and Dropbox, selectedPages for Notion
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param userId User ID to get
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
+ * @returns Promise that resolves with the user
+ * @throws VectorizeAPIError with code NOT_FOUND if the user is not attached to the connector
+ */
+export async function getConnectorUser(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  userId: string,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<ConnectorUser> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).users.get(connectorId, userId, options);
 }
 
 /**
@@ -109,32 +218,41 @@ export async function manageUser(
  * @param userId User ID to include in the token
  * @param connectorId Connector ID to include in the token
  * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
  * @returns Promise that resolves with the token response
  */
 export async function getOneTimeConnectorToken(
   config: VectorizeAPIConfig,
   userId: string,
   connectorId: string,
-  platformUrl: string = "https://api.vectorize.io/v1"
-): Promise<{ token: string; expires_at: number; ttl: number }> {
-  const url = `${platformUrl}/org/${config.organizationId}/generateOneTimeConnectorToken`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${config.authorization}`
-    },
-    body: JSON.stringify({
-      user_id: userId,
-      connector_id: connectorId
-    })
-  });
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions
+): Promise<OneTimeConnectorToken> {
+  return new VectorizeClient({ ...config, baseUrl: platformUrl }).tokens.oneTime(userId, connectorId, options);
+}
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Failed to generate token. Status: ${response.status}, Error: ${errorData.error || JSON.stringify(errorData)}`);
-  }
+/**
+ * Disconnects a user from a connector
+ * Revokes the user's grant at the provider first and only then removes the user,
+ * so a failed revocation leaves the user in place and can be retried.
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param userId User ID to disconnect
+ * @param revokeGrant Revokes the user's grant at the provider
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout of the removal request
+ * @returns Promise that resolves with the API response of the removal
+ */
+export async function disconnectUser(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  userId: string,
+  revokeGrant: () => Promise<void>,
+  platformUrl: string = DEFAULT_PLATFORM_URL,
+  options?: RequestOptions,
+): Promise<Response> {
+  await revokeGrant();
 
-  return await response.json();
-}
\ No newline at end of file
+  return manageUser(config, connectorId, userId, "remove", {}, platformUrl, options);
+}
@@ -0,0 +1,329 @@
+import { FlowMessage, FLOW_MESSAGE_SOURCE, OAuthError } from '../types';
+import { generateRandomString } from '../utils/state';
+import { REDIRECT_FLOW_KEY, REDIRECT_RESULT_KEY } from '../utils/redirect';
+import { serializeForScript } from '../utils/html';
+
+/**
+ * Callbacks invoked for the messages received on a flow channel
+ */
+export interface FlowChannelHandlers {
+  onSuccess?: (payload?: any) => void;
+  onError?: (error: OAuthError) => void;
+  onCancel?: () => void;
+  onProgress?: (progress: any) => void;
+}
+
+/**
+ * Default time to wait for a final message after a popup closes before
+ * treating the flow as cancelled; pages post their result right before closing
+ */
+export const DEFAULT_POPUP_CLOSED_GRACE_MS = 2000;
+
+/**
+ * Name of the BroadcastChannel used for a flow
+ * @param channelId The flow's channel id
+ * @returns The BroadcastChannel name
+ */
+function broadcastChannelName(channelId: string): string {
+  return `${FLOW_MESSAGE_SOURCE}:${channelId}`;
+}
+
+/**
+ * Listens for the messages of one OAuth or selection flow
+ *
+ * Pages post typed messages to the opener with an explicit target origin and
+ * mirror them on a BroadcastChannel, so results still arrive when
+ * Cross-Origin-Opener-Policy headers cut off window.opener. Messages are only
+ * accepted from the expected origin and for this flow's channel id.
+ */
+export class FlowChannel {
+  /**
+   * Id of the flow, passed to the popup so it can address this channel
+   */
+  public readonly id: string;
+
+  private readonly expectedOrigin: string;
+  private readonly handlers: FlowChannelHandlers;
+  private readonly seenMessageIds = new Set<string>();
+  private broadcastChannel: BroadcastChannel | null = null;
+  private cancelTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  /**
+   * Popup window of the flow, once it is open
+   */
+  public popup: Window | null = null;
+
+  /**
+   * Called once the channel stops listening, e.g. to remove an embedded picker
+   */
+  public onClose: (() => void) | null = null;
+
+  /**
+   * @param handlers Callbacks for the flow's messages
+   * @param expectedOrigin Origin the flow's pages are served from
+   * @param id Optional channel id; a random one is generated by default
+   */
+  constructor(handlers: FlowChannelHandlers, expectedOrigin: string, id: string = generateRandomString(16)) {
+    this.id = id;
+    this.handlers = handlers;
+    this.expectedOrigin = expectedOrigin;
+
+    window.addEventListener('message', this.handleWindowMessage);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.broadcastChannel = new BroadcastChannel(broadcastChannelName(id));
+      this.broadcastChannel.onmessage = (event: MessageEvent) => this.dispatch(event.data);
+    }
+  }
+
+  /**
+   * Stops listening for messages of this flow
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    if (this.cancelTimer) {
+      clearTimeout(this.cancelTimer);
+      this.cancelTimer = null;
+    }
+    window.removeEventListener('message', this.handleWindowMessage);
+    this.broadcastChannel?.close();
+    this.broadcastChannel = null;
+    this.onClose?.();
+  }
+
+  /**
+   * Cancels the flow after a delay unless it finishes first
+   * Used once the popup looks closed, so a result posted right before the
+   * popup closed can still arrive.
+   * @param delayMs Time to keep waiting for a result, in milliseconds
+   */
+  public cancelAfter(delayMs: number): void {
+    if (this.closed || this.cancelTimer) {
+      return;
+    }
+
+    this.cancelTimer = setTimeout(() => {
+      this.cancelTimer = null;
+      if (!this.closed) {
+        this.close();
+        this.handlers.onCancel?.();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Whether the channel has stopped listening
+   */
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  private handleWindowMessage = (event: MessageEvent): void => {
+    if (event.origin !== this.expectedOrigin) {
+      return;
+    }
+
+    this.dispatch(event.data);
+  };
+
+  /**
+   * Validates a message and invokes the matching handler
+   * Terminal messages (success, error, cancel) close the channel.
+   * @param data The received message data
+   */
+  private dispatch(data: unknown): void {
+    if (this.closed || !this.isFlowMessage(data)) {
+      return;
+    }
+
+    // Messages arrive on both transports; handle each one only once
+    if (this.seenMessageIds.has(data.id)) {
+      return;
+    }
+    this.seenMessageIds.add(data.id);
+
+    switch (data.type) {
+      case 'success':
+        this.close();
+        this.handlers.onSuccess?.(data.payload);
+        break;
+      case 'error':
+        this.close();
+        this.handlers.onError?.(
+          new OAuthError(
+            data.payload?.message || 'An unknown error occurred',
+            data.payload?.code || 'UNKNOWN_ERROR',
+            data.payload?.details
+          )
+        );
+        break;
+      case 'cancel':
+        this.close();
+        this.handlers.onCancel?.();
+        break;
+      case 'progress':
+        this.handlers.onProgress?.(data.payload);
+        break;
+    }
+  }
+
+  private isFlowMessage(data: unknown): data is FlowMessage {
+    const message = data as FlowMessage;
+    return !!message
+      && typeof message === 'object'
+      && message.source === FLOW_MESSAGE_SOURCE
+      && message.channelId === this.id
+      && typeof message.id === 'string'
+      && ['success', 'error', 'cancel', 'progress'].includes(message.type);
+  }
+}
+
+/**
+ * Registry of the flows in progress, keyed by flow id
+ * Each flow has its own channel and callbacks, so several flows can run on one page.
+ */
+export class FlowRegistry {
+  private readonly flows = new Map<string, FlowChannel>();
+
+  /**
+   * Opens the channel of a new flow
+   * @param handlers Callbacks for the flow's messages
+   * @param expectedOrigin Origin the flow's pages are served from
+   * @returns The flow's channel
+   */
+  public open(handlers: FlowChannelHandlers, expectedOrigin: string): FlowChannel {
+    this.prune();
+
+    const channel = new FlowChannel(handlers, expectedOrigin);
+    this.flows.set(channel.id, channel);
+    return channel;
+  }
+
+  /**
+   * Gets the channel of a flow in progress
+   * @param flowId The flow id
+   * @returns The flow's channel, or undefined if the flow has finished
+   */
+  public get(flowId: string): FlowChannel | undefined {
+    this.prune();
+    return this.flows.get(flowId);
+  }
+
+  /**
+   * Finds the flow in progress that uses a popup window
+   * @param popup The popup window
+   * @returns The flow's channel, or undefined if no flow uses the popup
+   */
+  public findByPopup(popup: Window): FlowChannel | undefined {
+    this.prune();
+    for (const channel of this.flows.values()) {
+      if (channel.popup === popup) {
+        return channel;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Stops listening for the messages of a flow
+   * @param flowId The flow id
+   */
+  public close(flowId: string): void {
+    this.flows.get(flowId)?.close();
+    this.flows.delete(flowId);
+  }
+
+  /**
+   * Stops listening for the messages of all flows
+   */
+  public closeAll(): void {
+    this.flows.forEach(channel => channel.close());
+    this.flows.clear();
+  }
+
+  /**
+   * Ids of the flows in progress
+   */
+  public get ids(): string[] {
+    this.prune();
+    return Array.from(this.flows.keys());
+  }
+
+  private prune(): void {
+    this.flows.forEach((channel, flowId) => {
+      if (channel.isClosed) {
+        this.flows.delete(flowId);
+      }
+    });
+  }
+}
+
+/**
+ * Generates the page-side script that defines sendFlowMessage(type, payload)
+ *
+ * Messages go to window.opener (or the parent of an embedded picker) with the
+ * page's own origin as the explicit target origin, and are mirrored on the
+ * flow's BroadcastChannel. In redirect
+ * mode the final message is stored in sessionStorage instead and the tab
+ * returns to the app, which reads it with getRedirectResult.
+ * @param channelId Channel id of the flow; when omitted it is read from the
+ * state parameter of the page URL (OAuth callback pages)
+ * @returns JavaScript source to embed in a page
+ */
+export function createChannelScript(channelId?: string): string {
+  return `
+    const flowChannelId = ${serializeForScript(channelId || null)}
+      || (new URLSearchParams(window.location.search).get('state') || '').split('.')[0]
+      || null;
+
+    // Context of a redirect flow started in this tab, if the page belongs to one
+    const redirectFlow = (function() {
+      try {
+        const context = JSON.parse(window.sessionStorage.getItem(${serializeForScript(REDIRECT_FLOW_KEY)}) || 'null');
+        return context && flowChannelId && context.flowId === flowChannelId ? context : null;
+      } catch (e) {
+        return null;
+      }
+    })();
+
+    function sendFlowMessage(type, payload) {
+      const message = {
+        source: ${serializeForScript(FLOW_MESSAGE_SOURCE)},
+        channelId: flowChannelId,
+        id: Math.random().toString(36).slice(2) + Date.now().toString(36),
+        type: type,
+        payload: payload === undefined ? undefined : JSON.parse(JSON.stringify(payload))
+      };
+
+      if (redirectFlow) {
+        if (type !== 'progress') {
+          window.sessionStorage.removeItem(${serializeForScript(REDIRECT_FLOW_KEY)});
+          window.sessionStorage.setItem(${serializeForScript(REDIRECT_RESULT_KEY)}, JSON.stringify(message));
+          window.location.replace(redirectFlow.returnUrl);
+        }
+        return;
+      }
+
+      try {
+        // Embedded pickers report to the page they are mounted in
+        const target = window.opener || (window.parent !== window ? window.parent : null);
+        if (target && !target.closed) {
+          target.postMessage(message, window.origin || window.location.origin);
+        }
+      } catch (e) {
+        // window.opener can be unavailable under Cross-Origin-Opener-Policy
+      }
+
+      if (flowChannelId && typeof BroadcastChannel !== 'undefined') {
+        const broadcastChannel = new BroadcastChannel(${serializeForScript(FLOW_MESSAGE_SOURCE + ':')} + flowChannelId);
+        broadcastChannel.postMessage(message);
+        broadcastChannel.close();
+      }
+    }
+  `;
+}
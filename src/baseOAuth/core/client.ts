@@ -0,0 +1,630 @@
+import {
+  BulkCheckpoint,
+  BulkManageUsersOptions,
+  BulkManageUsersReport,
+  BulkUserOperation,
+  BulkUserResult,
+  ConnectorConfig,
+  ConnectorUser,
+  ConnectorUserPage,
+  OAuthError,
+  RequestOptions,
+  SourceConnector,
+  SourceConnectorUpdate,
+  UserAction,
+  VectorizeAPIConfig,
+  VectorizeAPIError
+} from '../types';
+import { RetryPolicy, sendRequest } from '../utils/http';
+
+/**
+ * Default URL of the Vectorize API
+ */
+export const DEFAULT_PLATFORM_URL = 'https://api.vectorize.io/v1';
+
+/**
+ * Options for a VectorizeClient
+ */
+export interface VectorizeClientOptions extends VectorizeAPIConfig {
+  baseUrl?: string;                  // URL of the Vectorize API (defaults to production)
+  headers?: Record<string, string>;  // Headers sent with every request
+  timeoutMs?: number;                // Default time limit of a call including retries, in milliseconds
+  retry?: RetryPolicy | false;       // Retry policy (defaults to the global policy); false disables retries
+}
+
+/**
+ * One-time connector token returned by the Vectorize API
+ */
+export interface OneTimeConnectorToken {
+  token: string;
+  expires_at: number;
+  ttl: number;
+}
+
+/**
+ * Client for the Vectorize API
+ *
+ * Built once with credentials and transport settings, so call sites only pass
+ * what differs per call.
+ *
+ * @example
+ * const client = new VectorizeClient({ authorization, organizationId });
+ * const connectorId = await client.connectors.create({ name: 'Drive', type: GoogleDriveConnectorType.VECTORIZE });
+ * await client.users.add(connectorId, userId, { selectedFiles, refreshToken });
+ */
+export class VectorizeClient {
+  public readonly baseUrl: string;
+
+  private readonly options: VectorizeClientOptions;
+
+  /**
+   * Source connector operations
+   */
+  public readonly connectors = {
+    /**
+     * Creates a source connector
+     * @param connector Connector configuration including name, type, and optional config
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the ID of the created connector
+     */
+    create: async (connector: ConnectorConfig, options?: RequestOptions): Promise<string> => {
+      const response = await this.request(
+        'POST',
+        '/connectors/sources',
+        connector,
+        'Failed to create connector',
+        options
+      );
+      const data = await this.readJson(response);
+
+      // Get the connector ID from the response
+      const connectorId = data?.connector?.id;
+      if (!connectorId) {
+        throw this.invalidResponse('No connector ID found in the response.', response, data);
+      }
+
+      return connectorId;
+    },
+
+    /**
+     * Lists the source connectors of the organization
+     * @param types Optional connector types to return, e.g. GoogleDriveConnectorType values
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the source connectors
+     */
+    list: async <TType extends string = string>(
+      types?: TType[],
+      options?: RequestOptions
+    ): Promise<SourceConnector<TType>[]> => {
+      const response = await this.request('GET', '/connectors/sources', undefined, 'Failed to list connectors', options);
+      const data = await this.readJson(response);
+
+      if (!Array.isArray(data?.sourceConnectors)) {
+        throw this.invalidResponse('No source connectors found in the response.', response, data);
+      }
+
+      const connectors: SourceConnector<TType>[] = data.sourceConnectors;
+      return types?.length
+        ? connectors.filter(connector => types.includes(connector.type))
+        : connectors;
+    },
+
+    /**
+     * Gets a source connector
+     * @param connectorId ID of the connector
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the source connector
+     */
+    get: async <TType extends string = string>(
+      connectorId: string,
+      options?: RequestOptions
+    ): Promise<SourceConnector<TType>> => {
+      const response = await this.request(
+        'GET',
+        `/connectors/sources/${encodeURIComponent(connectorId)}`,
+        undefined,
+        'Failed to get connector',
+        options
+      );
+      const data = await this.readJson(response);
+
+      if (typeof data?.id !== 'string') {
+        throw this.invalidResponse('No connector found in the response.', response, data);
+      }
+
+      return data;
+    },
+
+    /**
+     * Renames a source connector or replaces parts of its configuration
+     * @param connectorId ID of the connector
+     * @param update New name and/or configuration fields
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the updated source connector
+     */
+    update: async <TType extends string = string>(
+      connectorId: string,
+      update: SourceConnectorUpdate,
+      options?: RequestOptions
+    ): Promise<SourceConnector<TType>> => {
+      const response = await this.request(
+        'PATCH',
+        `/connectors/sources/${encodeURIComponent(connectorId)}`,
+        update,
+        'Failed to update connector',
+        options,
+        true // Applying the same update twice has the same result
+      );
+      const data = await this.readJson(response);
+
+      const connector = data?.data?.updatedConnector;
+      if (!connector || typeof connector !== 'object') {
+        throw this.invalidResponse('No updated connector found in the response.', response, data);
+      }
+
+      return connector;
+    },
+
+    /**
+     * Deletes a source connector
+     * @param connectorId ID of the connector
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves once the connector is deleted
+     */
+    delete: async (connectorId: string, options?: RequestOptions): Promise<void> => {
+      await this.request(
+        'DELETE',
+        `/connectors/sources/${encodeURIComponent(connectorId)}`,
+        undefined,
+        'Failed to delete connector',
+        options
+      );
+    }
+  };
+
+  /**
+   * Operations on the users of a source connector
+   */
+  public readonly users = {
+    /**
+     * Iterates over all users of a connector, fetching further pages as needed
+     * @param connectorId ID of the connector
+     * @param pageSize Optional number of users per page
+     * @param options Optional abort signal and timeout of each page request
+     * @returns An async iterator over the users
+     */
+    list: (connectorId: string, pageSize?: number, options?: RequestOptions): AsyncIterableIterator<ConnectorUser> =>
+      this.iterateUsers(connectorId, pageSize, options),
+
+    /**
+     * Gets one page of the users of a connector
+     * @param connectorId ID of the connector
+     * @param cursor Optional cursor of the page, from the previous page's nextCursor
+     * @param pageSize Optional number of users per page
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the users and the cursor of the next page
+     */
+    listPage: async (
+      connectorId: string,
+      cursor?: string,
+      pageSize?: number,
+      options?: RequestOptions
+    ): Promise<ConnectorUserPage> => {
+      const query = new URLSearchParams();
+      if (cursor) {
+        query.set('cursor', cursor);
+      }
+      if (pageSize) {
+        query.set('limit', String(pageSize));
+      }
+
+      const search = query.toString();
+
+      const response = await this.request(
+        'GET',
+        `/connectors/sources/${encodeURIComponent(connectorId)}/users/${search ? `?${search}` : ''}`,
+        undefined,
+        'Failed to list users',
+        options
+      );
+      const data = await this.readJson(response);
+
+      if (!Array.isArray(data?.users)) {
+        throw this.invalidResponse('No users found in the response.', response, data);
+      }
+      if (data.nextCursor != null && typeof data.nextCursor !== 'string') {
+        throw this.invalidResponse('Invalid next cursor in the response.', response, data);
+      }
+
+      return {
+        users: data.users,
+        nextCursor: data.nextCursor || undefined
+      };
+    },
+
+    /**
+     * Gets a user of a connector with their current selection
+     * @param connectorId ID of the connector
+     * @param userId User ID to get
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the user
+     * @throws VectorizeAPIError with code NOT_FOUND if the user is not attached to the connector
+     */
+    get: async (connectorId: string, userId: string, options?: RequestOptions): Promise<ConnectorUser> => {
+      const response = await this.request(
+        'GET',
+        `/connectors/sources/${encodeURIComponent(connectorId)}/users/${encodeURIComponent(userId)}`,
+        undefined,
+        'Failed to get user',
+        options
+      );
+      const data = await this.readJson(response);
+
+      if (typeof data?.userId !== 'string') {
+        throw this.invalidResponse('No user found in the response.', response, data);
+      }
+
+      return data;
+    },
+
+    /**
+     * Adds a user to a connector
+     * @param connectorId ID of the connector
+     * @param userId User ID to add
+     * @param payload Connector-specific payload (e.g. selected files and refresh token)
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the API response
+     */
+    add: (
+      connectorId: string,
+      userId: string,
+      payload: Record<string, any> = {},
+      options?: RequestOptions
+    ): Promise<Response> =>
+      this.users.manage(connectorId, userId, 'add', payload, options),
+
+    /**
+     * Updates a user of a connector
+     * @param connectorId ID of the connector
+     * @param userId User ID to update
+     * @param payload Connector-specific payload
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the API response
+     */
+    edit: (
+      connectorId: string,
+      userId: string,
+      payload: Record<string, any> = {},
+      options?: RequestOptions
+    ): Promise<Response> =>
+      this.users.manage(connectorId, userId, 'edit', payload, options),
+
+    /**
+     * Removes a user from a connector
+     * @param connectorId ID of the connector
+     * @param userId User ID to remove
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the API response
+     */
+    remove: (connectorId: string, userId: string, options?: RequestOptions): Promise<Response> =>
+      this.users.manage(connectorId, userId, 'remove', {}, options),
+
+    /**
+     * Adds, edits or removes a user of a connector
+     * @param connectorId ID of the connector
+     * @param userId User ID to manage
+     * @param action Action to perform ("add", "edit", or "remove")
+     * @param payload Connector-specific payload
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the API response
+     * @throws OAuthError with code INVALID_ACTION for an unknown action
+     */
+    manage: (
+      connectorId: string,
+      userId: string,
+      action: UserAction,
+      payload: Record<string, any> = {},
+      options?: RequestOptions
+    ): Promise<Response> => {
+      let method: string;
+
+      switch (action) {
+        case 'add':
+          method = 'POST';
+          break;
+        case 'edit':
+          method = 'PATCH';
+          break;
+        case 'remove':
+          method = 'DELETE';
+          break;
+        default:
+          return Promise.reject(new OAuthError(`Invalid action: ${action}`, 'INVALID_ACTION', { action }));
+      }
+
+      return this.request(
+        method,
+        `/connectors/sources/${encodeURIComponent(connectorId)}/users/`,
+        { userId, ...payload },
+        'Failed to manage user',
+        options
+      );
+    },
+
+    /**
+     * Runs many user operations with bounded concurrency and an optional rate limit
+     * Failures don't stop the run; each operation gets its own result in the report.
+     * @param connectorId ID of the connector
+     * @param operations Users to add, edit or remove
+     * @param options Concurrency, rate limit, checkpoint to resume from, abort signal and per-request timeout
+     * @returns A Promise that resolves with the per-operation report
+     */
+    bulk: (
+      connectorId: string,
+      operations: BulkUserOperation[],
+      options?: BulkManageUsersOptions
+    ): Promise<BulkManageUsersReport> =>
+      this.manageUsersInBulk(connectorId, operations, options)
+  };
+
+  /**
+   * Connector token operations
+   */
+  public readonly tokens = {
+    /**
+     * Generates a one-time token for connector operations of a user
+     * @param userId User ID to include in the token
+     * @param connectorId Connector ID to include in the token
+     * @param options Optional abort signal and timeout
+     * @returns A Promise that resolves with the token
+     */
+    oneTime: async (
+      userId: string,
+      connectorId: string,
+      options?: RequestOptions
+    ): Promise<OneTimeConnectorToken> => {
+      const response = await this.request(
+        'POST',
+        '/generateOneTimeConnectorToken',
+        { user_id: userId, connector_id: connectorId },
+        'Failed to generate token',
+        options,
+        true // Generating another token is harmless
+      );
+      const data = await this.readJson(response);
+
+      if (typeof data?.token !== 'string') {
+        throw this.invalidResponse('No token found in the response.', response, data);
+      }
+
+      return data;
+    }
+  };
+
+  /**
+   * @param options Credentials and transport settings
+   */
+  constructor(options: VectorizeClientOptions) {
+    this.options = options;
+    this.baseUrl = (options.baseUrl || DEFAULT_PLATFORM_URL).replace(/\/+$/, '');
+  }
+
+  /**
+   * Runs the operations of a bulk request on a pool of workers
+   */
+  private async manageUsersInBulk(
+    connectorId: string,
+    operations: BulkUserOperation[],
+    options: BulkManageUsersOptions = {}
+  ): Promise<BulkManageUsersReport> {
+    const { concurrency = 5, requestsPerSecond, signal, timeoutMs, onResult } = options;
+    // Operations with the same action and user may differ in payload, so they are
+    // told apart by the caller's id or by their position in the request
+    const operationKey = (operation: BulkUserOperation, index: number) =>
+      operation.id !== undefined ? `id:${operation.id}` : `index:${index}`;
+
+    const completed = new Set(options.checkpoint?.completed);
+    const checkpoint = (): BulkCheckpoint => ({ completed: Array.from(completed) });
+    const pending = operations
+      .map((operation, index) => ({ operation, index }))
+      .filter(({ operation, index }) => !completed.has(operationKey(operation, index)));
+
+    // Starts are spaced evenly to stay below the rate limit
+    const interval = requestsPerSecond ? 1000 / requestsPerSecond : 0;
+    let nextStart = 0;
+    const waitForTurn = async () => {
+      const now = Date.now();
+      const start = Math.max(now, nextStart);
+      nextStart = start + interval;
+      if (start > now) {
+        await new Promise(resolve => setTimeout(resolve, start - now));
+      }
+    };
+
+    const results: BulkUserResult[] = [];
+    const worker = async () => {
+      while (pending.length && !signal?.aborted) {
+        const next = pending.shift()!;
+        const { operation, index } = next;
+        await waitForTurn();
+        if (signal?.aborted) {
+          pending.unshift(next);
+          break;
+        }
+
+        let result: BulkUserResult;
+        try {
+          const response = await this.users.manage(
+            connectorId,
+            operation.userId,
+            operation.action,
+            operation.payload,
+            { signal, timeoutMs }
+          );
+          completed.add(operationKey(operation, index));
+          result = { index, userId: operation.userId, action: operation.action, success: true, status: response.status };
+        } catch (error) {
+          // An operation cut off by the signal is left pending, so a resumed run retries it
+          if (signal?.aborted) {
+            pending.unshift(next);
+            break;
+          }
+
+          const oauthError = error instanceof OAuthError ? error : new OAuthError(
+            error instanceof Error ? error.message : 'Failed to manage user',
+            'UNKNOWN_ERROR',
+            error
+          );
+          result = {
+            index,
+            userId: operation.userId,
+            action: operation.action,
+            success: false,
+            status: oauthError instanceof VectorizeAPIError ? oauthError.status : undefined,
+            error: oauthError
+          };
+        }
+
+        results.push(result);
+        try {
+          onResult?.(result, checkpoint());
+        } catch {
+          // A failing callback must not stop the run
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, pending.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    results.sort((a, b) => a.index - b.index);
+    pending.sort((a, b) => a.index - b.index);
+    const succeeded = results.filter(result => result.success).length;
+
+    return {
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+      skipped: operations.length - results.length - pending.length,
+      pending: pending.map(({ index }) => index),
+      aborted: pending.length > 0,
+      checkpoint: checkpoint()
+    };
+  }
+
+  /**
+   * Iterates over the pages of the users of a connector
+   */
+  private async *iterateUsers(
+    connectorId: string,
+    pageSize?: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<ConnectorUser> {
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.users.listPage(connectorId, cursor, pageSize, options);
+      yield* page.users;
+      cursor = page.nextCursor;
+
+      // A cursor that comes back would make the iteration loop forever
+      if (cursor !== undefined) {
+        if (seenCursors.has(cursor)) {
+          throw new VectorizeAPIError(
+            'The API returned a next cursor that was already visited.',
+            'INVALID_RESPONSE',
+            200,
+            { nextCursor: cursor }
+          );
+        }
+        seenCursors.add(cursor);
+      }
+    } while (cursor);
+  }
+
+  /**
+   * Reads the JSON body of a successful response
+   * @param response The response
+   * @returns A Promise that resolves with the parsed body
+   * @throws VectorizeAPIError with code INVALID_RESPONSE if the body isn't JSON
+   */
+  private async readJson(response: Response): Promise<any> {
+    const rawBody = await response.text();
+    try {
+      return JSON.parse(rawBody);
+    } catch {
+      throw new VectorizeAPIError(
+        'The response body is not valid JSON.',
+        'INVALID_RESPONSE',
+        response.status,
+        undefined,
+        rawBody,
+        response.headers.get('x-request-id') || undefined
+      );
+    }
+  }
+
+  /**
+   * Creates the error for a successful response that doesn't have the expected shape
+   * @param message Description of what is missing
+   * @param response The response
+   * @param data The parsed body
+   * @returns The VectorizeAPIError with code INVALID_RESPONSE
+   */
+  private invalidResponse(message: string, response: Response, data: unknown): VectorizeAPIError {
+    return new VectorizeAPIError(
+      message,
+      'INVALID_RESPONSE',
+      response.status,
+      data,
+      undefined,
+      response.headers.get('x-request-id') || undefined
+    );
+  }
+
+  /**
+   * Sends a request to an organization endpoint of the Vectorize API
+   * Transient failures are retried according to the retry policy.
+   * @param method HTTP method
+   * @param path Path below /org/{organizationId}
+   * @param body Optional JSON body
+   * @param errorMessage Message prefix for failed requests
+   * @param options Optional abort signal and timeout, overriding the client's timeout
+   * @param idempotent Whether the request may be repeated safely, overriding the method default
+   * @returns A Promise that resolves with the successful response
+   * @throws VectorizeAPIError if the API returns an error response
+   * @throws TimeoutError if the request times out
+   */
+  private async request(
+    method: string,
+    path: string,
+    body: unknown,
+    errorMessage: string,
+    options: RequestOptions = {},
+    idempotent?: boolean
+  ): Promise<Response> {
+    const { authorization, organizationId, headers, retry, fetch, interceptors } = this.options;
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+
+    const response = await sendRequest(
+      `${this.baseUrl}/org/${encodeURIComponent(organizationId)}${path}`,
+      {
+        method,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authorization}`
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      },
+      { retry, idempotent, signal: options.signal, timeoutMs, fetch, interceptors }
+    );
+
+    if (!response.ok) {
+      throw await VectorizeAPIError.fromResponse(response, errorMessage);
+    }
+
+    return response;
+  }
+}
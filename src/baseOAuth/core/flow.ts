@@ -0,0 +1,100 @@
+import { FlowOptions, OAuthConfig, OAuthError } from '../types';
+
+/**
+ * A started popup flow, as returned by the start function given to runPopupFlow
+ */
+export interface StartedFlow {
+  popup: Window | null;
+  dispose: () => void;   // Stops listening for the flow's messages
+}
+
+/**
+ * Creates the error a flow rejects with when its signal is aborted
+ * @param signal The aborted signal
+ * @returns The abort error
+ */
+function createAbortError(signal: AbortSignal): OAuthError {
+  return new OAuthError('The flow was aborted', 'ABORTED', signal.reason);
+}
+
+/**
+ * Runs a callback-based popup flow and exposes its outcome as a Promise
+ * The config's own onSuccess, onError and onCancel callbacks are still invoked.
+ * @param config The configuration of the flow
+ * @param start Starts the flow with the given configuration
+ * @param options Optional abort signal; aborting closes the popup
+ * @returns A Promise that resolves with the flow's success payload
+ * @throws OAuthError if the flow fails, is aborted, or the user closes the popup (USER_CANCELLED)
+ */
+export function runPopupFlow<TResult, TConfig extends OAuthConfig<TResult> = OAuthConfig<TResult>>(
+  config: TConfig,
+  start: (config: TConfig) => StartedFlow | Promise<StartedFlow>,
+  options: FlowOptions = {}
+): Promise<TResult> {
+  const { signal } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError(signal));
+  }
+
+  return new Promise<TResult>((resolve, reject) => {
+    let started: StartedFlow | null = null;
+    let settled = false;
+
+    const settle = (complete: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      complete();
+    };
+
+    const teardown = () => {
+      started?.dispose();
+      if (started?.popup && !started.popup.closed) {
+        started.popup.close();
+      }
+    };
+
+    const onAbort = () => {
+      teardown();
+      settle(() => reject(createAbortError(signal!)));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    Promise.resolve()
+      .then(() => start({
+        ...config,
+        onSuccess: (result: TResult) => {
+          settle(() => resolve(result));
+          config.onSuccess?.(result);
+        },
+        onError: (error: OAuthError) => {
+          settle(() => reject(error));
+          config.onError?.(error);
+        },
+        onCancel: () => {
+          settle(() => reject(new OAuthError('The user closed the window before finishing', 'USER_CANCELLED')));
+          config.onCancel?.();
+        }
+      }))
+      .then(flow => {
+        started = flow;
+        // Aborted while the flow was still starting
+        if (settled && signal?.aborted) {
+          teardown();
+        }
+      })
+      .catch(error => {
+        settle(() => reject(
+          error instanceof OAuthError ? error : new OAuthError(
+            error instanceof Error ? error.message : 'An unknown error occurred',
+            'UNKNOWN_ERROR',
+            error
+          )
+        ));
+      });
+  });
+}
@@ -1,9 +1,44 @@
-import { OAuthConfig, OAuthError, OAuthResponse } from '../types';
+import {
+  ConfigurationError,
+  FlowOptions,
+  OAuthConfig,
+  OAuthError,
+  OAuthResponse,
+  PickerTokenBroker,
+  RedirectOptions,
+  RequestOptions,
+  StateError,
+  TokenError
+} from '../types';
+import {
+  clearOAuthStateCookie,
+  generateRandomString,
+  getFlowId,
+  persistOAuthState,
+  verifyOAuthState
+} from '../utils/state';
+import {
+  clearCodeVerifierCookie,
+  createCodeChallenge,
+  generateCodeVerifier,
+  persistCodeVerifier,
+  readCodeVerifier
+} from '../utils/pkce';
+import { sealTokenHandle, unsealTokenHandle } from '../utils/tokenBroker';
+import { consumeRedirectResult, persistRedirectFlow } from '../utils/redirect';
+import { DEFAULT_POPUP_CLOSED_GRACE_MS, FlowRegistry } from './channel';
+import { runPopupFlow } from './flow';
+import { createErrorPageHTML } from '../utils/validation';
 
 /**
  * Base OAuth class that provides common functionality for all OAuth connectors
  */
 export abstract class BaseOAuth {
+  /**
+   * Flows in progress on this page, keyed by flow id
+   */
+  protected static readonly flows = new FlowRegistry();
+
   /**
    * Validates the OAuth configuration
    * @param config The OAuth configuration to validate
@@ -58,41 +93,311 @@ export abstract class BaseOAuth {
   }
 
   /**
-   * Cleans up OAuth handler from window object
+   * Creates a new state value for an OAuth flow and stores it for the callback to verify
+   * The flow's channel id is prefixed to the state so the callback page can address the channel.
+   * @param channelId Optional channel id of the flow
+   * @returns The state to include in the authorization URL
+   */
+  protected static createState(channelId?: string): string {
+    const state = channelId ? `${channelId}.${generateRandomString()}` : generateRandomString();
+    persistOAuthState(state);
+    return state;
+  }
+
+  /**
+   * Verifies the state of an OAuth callback against the one stored when the flow started
+   * A callback without its request can't be checked, so it is rejected rather than trusted.
+   * @param request The incoming callback request
+   * @returns The verified state value
+   * @throws StateError if the request is missing, or its state is missing, replayed or mismatched
+   */
+  protected static verifyState(request?: Request): string {
+    if (!request) {
+      throw new StateError('The callback request is required to verify the OAuth state', { reason: 'missing' });
+    }
+
+    return verifyOAuthState(request);
+  }
+
+  /**
+   * Builds the provider's authorization request
+   * To be implemented by subclasses
+   * @param config The OAuth configuration
+   * @returns The authorization endpoint, its connector-specific parameters and the popup title
+   */
+  protected static createAuthorizationRequest(config: OAuthConfig): {
+    endpoint: string;
+    params: URLSearchParams;
+    popupTitle: string;
+  } {
+    throw new Error('Method not implemented');
+  }
+
+  /**
+   * Creates a PKCE code verifier for a flow and adds its S256 challenge to the parameters
+   * @param params The authorization parameters
+   * @returns A Promise that resolves once the challenge is added
    */
-  protected static cleanupOAuthHandler(): void {
-    delete (window as any).__oauthHandler;
+  protected static async addCodeChallenge(params: URLSearchParams): Promise<void> {
+    const codeVerifier = generateCodeVerifier();
+    persistCodeVerifier(codeVerifier, getFlowId(params.get('state')));
+
+    params.set('code_challenge', await createCodeChallenge(codeVerifier));
+    params.set('code_challenge_method', 'S256');
   }
 
   /**
-   * Sets up OAuth handler in window object for callback
+   * Opens the provider's authorization page in a popup
+   * Adds the state parameter and, when PKCE is enabled, the S256 code challenge.
+   * With PKCE the popup is opened blank first so it stays inside the user gesture
+   * while the challenge is computed.
+   * @param authEndpoint The provider's authorization endpoint
+   * @param params The connector-specific authorization parameters
    * @param config The OAuth configuration
+   * @param popupTitle The title for the popup window
+   * @param channelId Optional channel id of the flow
+   * @returns The popup window instance or null if creation failed
    */
-  protected static setupOAuthHandler(config: OAuthConfig): void {
-    const { onSuccess, onError } = config;
-
-    // Store configuration for the callback to access
-    (window as any).__oauthHandler = {
-      onSuccess,
-      onError: (error: string | OAuthError) => {
-        if (typeof error === 'string') {
-          error = new OAuthError(error, 'UNKNOWN_ERROR');
+  protected static openAuthorizationPopup(
+    authEndpoint: string,
+    params: URLSearchParams,
+    config: OAuthConfig,
+    popupTitle: string,
+    channelId?: string
+  ): Window | null {
+    params.set('state', this.createState(channelId));
+
+    let popup: Window | null;
+    try {
+      popup = this.createOAuthPopup(config.pkce ? 'about:blank' : `${authEndpoint}?${params.toString()}`, popupTitle);
+    } catch (error) {
+      // The flow never started, so stop listening for it
+      if (channelId) {
+        this.cleanupOAuthHandler(channelId);
+      }
+      throw error;
+    }
+
+    if (!config.pkce) {
+      return popup;
+    }
+
+    this.addCodeChallenge(params)
+      .then(() => {
+        popup?.location.replace(`${authEndpoint}?${params.toString()}`);
+      })
+      .catch(error => {
+        // Stop listening first, so the closed popup isn't also reported as cancelled
+        if (channelId) {
+          this.cleanupOAuthHandler(channelId);
         }
-        onError?.(error);
-      },
-      OAuthError // Make error constructor available to the popup
+        popup?.close();
+        config.onError?.(
+          new OAuthError(
+            error instanceof Error ? error.message : 'Failed to create PKCE code challenge',
+            'PKCE_ERROR',
+            error
+          )
+        );
+      });
+
+    return popup;
+  }
+
+  /**
+   * Reads the PKCE code verifier of the flow that a callback belongs to
+   * @param config The OAuth configuration
+   * @param request Optional callback request
+   * @returns The code verifier, or undefined if the flow did not use PKCE
+   * @throws OAuthError if PKCE is enabled but no verifier is available
+   */
+  protected static getCodeVerifier(config: OAuthConfig, request?: Request): string | undefined {
+    if (!request) {
+      if (config.pkce) {
+        throw new ConfigurationError('The callback request is required when PKCE is enabled');
+      }
+      return undefined;
+    }
+
+    const codeVerifier = readCodeVerifier(request);
+    if (!codeVerifier && config.pkce) {
+      throw new OAuthError('Missing PKCE code verifier for this OAuth flow', 'PKCE_VERIFIER_MISSING');
+    }
+
+    return codeVerifier;
+  }
+
+  /**
+   * Wraps callback page HTML in a Response and clears the cookies of the finished flow
+   * @param htmlContent The HTML of the callback page
+   * @param request Optional callback request, used to find the flow's cookies
+   * @returns A Response object with the callback page
+   */
+  protected static createHTMLResponse(htmlContent: string, request?: Request): Response {
+    const flowId = request ? getFlowId(new URL(request.url).searchParams.get('state')) : undefined;
+
+    const headers = new Headers({ 'Content-Type': 'text/html' });
+    headers.append('Set-Cookie', clearOAuthStateCookie(flowId));
+    headers.append('Set-Cookie', clearCodeVerifierCookie(flowId));
+
+    return new Response(htmlContent, { headers });
+  }
+
+  /**
+   * Prepares the token broker details for a picker page
+   * In token broker mode the token is sealed into a handle so it never reaches the page.
+   * @param config The OAuth configuration
+   * @param connector The connector the token belongs to
+   * @param token The refresh token (or long-lived access token) to seal
+   * @returns The token broker details, or undefined when token broker mode is off
+   */
+  protected static async createPickerTokenBroker(
+    config: OAuthConfig,
+    connector: string,
+    token: string
+  ): Promise<PickerTokenBroker | undefined> {
+    if (!config.tokenBroker) {
+      return undefined;
+    }
+
+    if (!config.tokenBroker.secret) {
+      throw new ConfigurationError('Missing tokenBroker.secret in configuration');
+    }
+
+    return {
+      endpoint: config.tokenBroker.endpoint,
+      handle: await sealTokenHandle({ connector, token }, config.tokenBroker.secret, config.tokenBroker.handleTtlSeconds)
     };
   }
 
   /**
-   * Monitor popup and cleanup when closed
+   * Gets the tokens a picker page may see
+   * In token broker mode the page gets its access tokens from the broker, narrowed to
+   * tokenBroker.scopes, so the full-scope tokens of the code exchange are left out.
+   * @param tokens The tokens of the code exchange
+   * @param tokenBroker The token broker details of the page, if any
+   * @returns The tokens to render into the picker page
+   */
+  protected static getPickerTokens(tokens: OAuthResponse, tokenBroker?: PickerTokenBroker): OAuthResponse {
+    return tokenBroker ? { ...tokens, access_token: '', refresh_token: '' } : tokens;
+  }
+
+  /**
+   * Handles a request to the token broker route
+   * Checks the origin, opens the token handle and delegates the requested action.
+   * @param request The incoming broker request
+   * @param config The OAuth configuration with the token broker secret
+   * @param connector The connector the broker serves
+   * @param handleAction Performs the requested action with the unsealed token
+   * @returns A JSON Response with the action result or an error
+   */
+  protected static async createBrokerResponse(
+    request: Request,
+    config: OAuthConfig,
+    connector: string,
+    handleAction: (action: string, token: string, body: Record<string, any>) => Promise<Record<string, any>>
+  ): Promise<Response> {
+    const json = (data: Record<string, any>, status: number = 200) => new Response(JSON.stringify(data), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' }, 405);
+    }
+
+    // Only pages served from this origin may ask for tokens; browsers send the
+    // Origin header with every POST, so requests without one aren't from a page.
+    // This only keeps other sites' pages out: it doesn't authenticate the caller,
+    // since clients outside a browser can send any Origin. The sealed handle is
+    // what authorizes a request.
+    const origin = request.headers.get('origin');
+    if (!origin || origin !== new URL(request.url).origin) {
+      return json({ error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' }, 403);
+    }
+
+    const secret = config.tokenBroker?.secret;
+    if (!secret) {
+      return json({ error: 'Token broker is not configured', code: 'CONFIGURATION_ERROR' }, 500);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.handle !== 'string') {
+      return json({ error: 'Missing token handle', code: 'INVALID_REQUEST' }, 400);
+    }
+
+    let token: string;
+    try {
+      ({ token } = await unsealTokenHandle(body.handle, secret, connector));
+    } catch (error) {
+      return json({ error: 'Invalid token handle', code: 'TOKEN_ERROR' }, 401);
+    }
+
+    try {
+      return json(await handleAction(body.action || 'token', token, body));
+    } catch (error) {
+      const oauthError = error instanceof OAuthError ? error : new TokenError(
+        error instanceof Error ? error.message : 'Token broker request failed',
+        error
+      );
+      return json(
+        { error: oauthError.message, code: oauthError.code },
+        oauthError.code === 'INVALID_REQUEST' ? 400 : 502
+      );
+    }
+  }
+
+  /**
+   * Stops listening for messages of a flow
+   * @param flowId Optional flow id; all flows are cleaned up when omitted
+   */
+  protected static cleanupOAuthHandler(flowId?: string): void {
+    if (flowId) {
+      BaseOAuth.flows.close(flowId);
+    } else {
+      BaseOAuth.flows.closeAll();
+    }
+  }
+
+  /**
+   * Opens the message channel the callback and picker pages report back on
+   * Each flow gets its own channel, so flows started side by side don't interfere.
+   * Only messages from the redirect URI's origin are accepted.
+   * @param config The OAuth configuration
+   * @returns The flow id to pass through the popup
+   */
+  protected static setupOAuthHandler(config: OAuthConfig): string {
+    const { onSuccess, onError, onCancel, onProgress } = config;
+
+    const channel = BaseOAuth.flows.open(
+      { onSuccess, onError, onCancel, onProgress },
+      new URL(config.redirectUri, window.location.href).origin
+    );
+
+    return channel.id;
+  }
+
+  /**
+   * Monitor popup and report cancellation when the user closes it
    * @param popup The popup window to monitor
+   * @param config The OAuth configuration
+   * @param flowId The id of the flow the popup belongs to
    */
-  protected static monitorPopup(popup: Window): void {
+  protected static monitorPopup(popup: Window, config: OAuthConfig, flowId: string): void {
+    const channel = BaseOAuth.flows.get(flowId);
+    if (channel) {
+      channel.popup = popup;
+    }
+
     const checkPopup = setInterval(() => {
-      if (popup && popup.closed) {
+      if (!channel || channel.isClosed) {
+        clearInterval(checkPopup);
+      } else if (popup && popup.closed) {
         clearInterval(checkPopup);
-        this.cleanupOAuthHandler();
+        channel.cancelAfter(config.popupClosedGraceMs ?? DEFAULT_POPUP_CLOSED_GRACE_MS);
       }
     }, 500);
   }
@@ -107,52 +412,114 @@ export abstract class BaseOAuth {
     throw new Error('Method not implemented');
   }
 
+  /**
+   * Starts the OAuth flow by navigating the current tab to the provider
+   * Use this where popups are blocked, e.g. mobile Safari and in-app browsers.
+   * The callback page shows the picker and then returns to options.returnUrl;
+   * call getRedirectResult there to read the outcome.
+   * @param config The OAuth configuration
+   * @param options Optional return URL and files to preselect in the picker
+   * @returns A Promise that resolves when navigation has started
+   * @throws OAuthError if the configuration is invalid
+   */
+  public static async startOAuthRedirect(config: OAuthConfig, options: RedirectOptions = {}): Promise<void> {
+    this.validateConfig(config);
+
+    const { endpoint, params } = this.createAuthorizationRequest(config);
+    const flowId = generateRandomString(16);
+
+    persistRedirectFlow({
+      flowId,
+      returnUrl: options.returnUrl || window.location.href,
+      selectedFiles: options.selectedFiles
+    });
+
+    params.set('state', this.createState(flowId));
+    if (config.pkce) {
+      await this.addCodeChallenge(params);
+    }
+
+    window.location.assign(`${endpoint}?${params.toString()}`);
+  }
+
+  /**
+   * Reads the outcome of a redirect flow after the tab returned to the app
+   * The result can only be read once. Connectors narrow the result to their selection result.
+   * @returns A Promise that resolves with the flow's result, or null if no redirect flow has finished
+   * @throws OAuthError if the flow failed, or USER_CANCELLED if the user cancelled it
+   */
+  public static getRedirectResult(): Promise<unknown> {
+    return this.readRedirectResult();
+  }
+
+  /**
+   * Reads the outcome of a redirect flow as the connector's result type
+   * @returns A Promise that resolves with the flow's result, or null if no redirect flow has finished
+   * @throws OAuthError if the flow failed, or USER_CANCELLED if the user cancelled it
+   */
+  protected static async readRedirectResult<TResult>(): Promise<TResult | null> {
+    const message = consumeRedirectResult();
+    if (!message) {
+      return null;
+    }
+
+    switch (message.type) {
+      case 'success':
+        return message.payload as TResult;
+      case 'cancel':
+        throw new OAuthError('The user cancelled the flow', 'USER_CANCELLED');
+      default:
+        throw new OAuthError(
+          message.payload?.message || 'An unknown error occurred',
+          message.payload?.code || 'UNKNOWN_ERROR',
+          message.payload?.details
+        );
+    }
+  }
+
+  /**
+   * Runs the OAuth flow and resolves with the result of the callback page
+   * Promise-based alternative to startOAuth; the config callbacks are optional.
+   * Connectors narrow the result to their selection result.
+   * @param config The OAuth configuration
+   * @param options Optional abort signal; aborting closes the popup
+   * @returns A Promise that resolves with the flow's result
+   * @throws OAuthError if the flow fails, is aborted or the user closes the popup
+   */
+  public static authorize(config: OAuthConfig, options?: FlowOptions): Promise<unknown> {
+    return this.runAuthorization(config, options);
+  }
+
+  /**
+   * Runs the OAuth flow and resolves with the result type of the configuration
+   * @param config The OAuth configuration
+   * @param options Optional abort signal; aborting closes the popup
+   * @returns A Promise that resolves with the flow's result
+   * @throws OAuthError if the flow fails, is aborted or the user closes the popup
+   */
+  protected static runAuthorization<TResult>(config: OAuthConfig<TResult>, options?: FlowOptions): Promise<TResult> {
+    return runPopupFlow<TResult>(config, flowConfig => {
+      const popup = this.startOAuth(flowConfig);
+      const channel = popup ? BaseOAuth.flows.findByPopup(popup) : undefined;
+      return { popup, dispose: () => channel?.close() };
+    }, options);
+  }
+
   /**
    * Create an error response for the OAuth callback
    * @param error The error to include in the response
    * @param nonce Optional nonce for Content Security Policy
+   * @param request Optional callback request, used to clear the flow's cookies
+   * @param config Optional OAuth configuration whose theme, locale and messages apply to the page
    * @returns A Response object with the error
    */
-  protected static createErrorResponse(error: OAuthError, nonce?: string): Response {
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Authentication Error</title>
-        <style>
-          body { font-family: Arial, sans-serif; text-align: center; margin-top: 50px; }
-          .error { color: #f44336; }
-        </style>
-        <script${nonce ? ` nonce="${nonce}"` : ''}>
-          window.onload = function() {
-            if (window.opener && window.opener.__oauthHandler) {
-              const errorObj = ${JSON.stringify({
-                message: error.message,
-                code: error.code,
-                details: error.details
-              })};
-
-              window.opener.__oauthHandler.onError(
-                new window.opener.__oauthHandler.OAuthError(
-                  errorObj.message,
-                  errorObj.code,
-                  errorObj.details
-                )
-              );
-              window.close();
-            }
-          };
-        </script>
-      </head>
-      <body>
-        <h2 class="error">Authentication Error</h2>
-        <p>${error.message}</p>
-        <p>This window will close automatically.</p>
-      </body>
-      </html>
-    `;
-
-    return new Response(htmlContent, { headers: { 'Content-Type': 'text/html' } });
+  protected static createErrorResponse(
+    error: OAuthError,
+    nonce?: string,
+    request?: Request,
+    config?: Pick<OAuthConfig, 'theme' | 'locale' | 'messages'>
+  ): Response {
+    return this.createHTMLResponse(createErrorPageHTML(error, nonce, config), request);
   }
 
   /**
@@ -161,12 +528,18 @@ export abstract class BaseOAuth {
    * @param code Authorization code from the OAuth redirect
    * @param config The OAuth configuration
    * @param error Optional error from the OAuth process
+   * @param nonce Optional nonce for Content Security Policy
+   * @param request Optional callback request, used to verify the OAuth state
+   * @param options Optional abort signal and timeout of the token exchange
    * @returns A Response object with the callback page
    */
   public static createCallbackResponse(
     code: string,
     config: OAuthConfig,
-    error?: string | OAuthError
+    error?: string | OAuthError,
+    nonce?: string,
+    request?: Request,
+    options?: RequestOptions
   ): Promise<Response> {
     throw new Error('Method not implemented');
   }
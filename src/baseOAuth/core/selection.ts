@@ -1,11 +1,20 @@
-import { OAuthConfig, OAuthError, OAuthResponse } from '../types';
+import { EmbedOptions, OAuthConfig, OAuthError, OAuthResponse, PickerTarget } from '../types';
 import { validateConfig } from '../utils/validation';
+import { createTranslator } from '../ui/i18n';
+import { LIGHT_THEME_COLORS } from '../ui/theme';
+import { DEFAULT_POPUP_CLOSED_GRACE_MS, FlowRegistry } from './channel';
+import { StartedFlow } from './flow';
 
 /**
  * Abstract base class for file selection functionality
  * Can be extended by connector-specific implementations
  */
 export abstract class BaseSelection {
+  /**
+   * Selections in progress on this page, keyed by flow id
+   */
+  protected static readonly flows = new FlowRegistry();
+
   /**
    * Creates a popup window for file selection
    * 
@@ -39,40 +48,232 @@ export abstract class BaseSelection {
   }
 
   /**
-   * Sets up the OAuth handler in the window object
+   * Whether a picker target asks for an embedded picker rather than naming a window
    * 
-   * @param config OAuth configuration with success and error callbacks
+   * @param target The picker target passed to startFileSelection
+   * @returns True for embed options
+   */
+  protected static isEmbedTarget(target?: PickerTarget): target is EmbedOptions {
+    return !!target && typeof (target as Window).closed !== 'boolean';
+  }
+
+  /**
+   * Gets the window to render a picker in: the given window, a frame inside
+   * the page for embed options, or a new popup
+   * 
+   * @param target Optional window or embed options
+   * @param config OAuth configuration of the selection
+   * @param flowId The flow id of the selection
+   * @param title Title of the popup window or frame
+   * @returns The window to write the picker into
+   */
+  protected static openPickerWindow(
+    target: PickerTarget | undefined,
+    config: OAuthConfig,
+    flowId: string,
+    title: string
+  ): Window | null {
+    if (BaseSelection.isEmbedTarget(target)) {
+      return BaseSelection.createEmbeddedWindow(target, config, flowId, title);
+    }
+
+    return target || BaseSelection.createPopupWindow(1200, 800, title);
+  }
+
+  /**
+   * Creates a frame inside the page for an embedded picker
+   * The frame is blank, so the picker written into it shares this window's origin
+   * and reports on the same channel as a popup would. It is mounted into the
+   * container of the options, or into a modal overlay with a close button, and
+   * removed once the selection finishes. The overlay keeps focus inside itself
+   * and hands it back to the element that had it when the selection ends.
+   * 
+   * @param options Container or size of the modal overlay
+   * @param config OAuth configuration, for the locale and theme of the close button
+   * @param flowId The flow id of the selection
+   * @param title Accessible title of the frame
+   * @returns The frame's window
    */
-  protected static setupOAuthHandler(config: OAuthConfig): void {
-    const { onSuccess, onError } = config;
-
-    // Store configuration for the callback to access
-    (window as any).__oauthHandler = {
-      onSuccess,
-      onError: (error: string | OAuthError) => {
-        if (typeof error === 'string') {
-          error = new OAuthError(error, 'UNKNOWN_ERROR');
+  protected static createEmbeddedWindow(
+    options: EmbedOptions,
+    config: OAuthConfig,
+    flowId: string,
+    title: string
+  ): Window {
+    const { container, width = '80%', height = '80%' } = options;
+    const channel = BaseSelection.flows.get(flowId);
+    const previousFocus = document.activeElement as HTMLElement | null;
+
+    const iframe = document.createElement('iframe');
+    iframe.title = title;
+    iframe.style.width = '100%';
+    iframe.style.height = '100%';
+    iframe.style.border = 'none';
+    iframe.style.display = 'block';
+
+    let mounted: HTMLElement = iframe;
+
+    if (!container) {
+      const translator = createTranslator(config.locale, config.messages);
+
+      // Dim the page behind the picker
+      const overlay = document.createElement('div');
+      overlay.style.position = 'fixed';
+      overlay.style.inset = '0';
+      overlay.style.zIndex = '9999';
+      overlay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+
+      const dialog = document.createElement('div');
+      dialog.setAttribute('role', 'dialog');
+      dialog.setAttribute('aria-modal', 'true');
+      dialog.setAttribute('aria-label', title);
+      dialog.style.position = 'absolute';
+      dialog.style.top = '50%';
+      dialog.style.left = '50%';
+      dialog.style.transform = 'translate(-50%, -50%)';
+      dialog.style.width = width;
+      dialog.style.height = height;
+      dialog.style.borderRadius = '8px';
+      dialog.style.overflow = 'hidden';
+      dialog.style.boxShadow = '0 4px 12px rgba(0, 0, 0, 0.15)';
+      dialog.style.backgroundColor = 'white';
+
+      const closeButton = document.createElement('button');
+      closeButton.type = 'button';
+      closeButton.textContent = '✕';
+      closeButton.setAttribute('aria-label', translator.t('pickerClose'));
+      closeButton.style.position = 'absolute';
+      closeButton.style.top = '10px';
+      closeButton.style.insetInlineEnd = '10px';
+      closeButton.style.zIndex = '10000';
+      closeButton.style.backgroundColor = config.theme?.colors?.error || LIGHT_THEME_COLORS.error;
+      closeButton.style.color = 'white';
+      closeButton.style.border = 'none';
+      closeButton.style.borderRadius = '50%';
+      closeButton.style.width = '30px';
+      closeButton.style.height = '30px';
+      closeButton.style.fontSize = '16px';
+      closeButton.style.cursor = 'pointer';
+
+      // Closing the overlay cancels the selection, like closing a popup.
+      // Escape pressed inside the frame is reported by the picker page itself.
+      const cancel = () => {
+        if (channel) {
+          channel.cancelAfter(0);
+        } else {
+          overlay.remove();
+          previousFocus?.focus?.();
         }
-        onError?.(error);
-      },
-      OAuthError // Make error constructor available to popup
-    };
+      };
+
+      closeButton.addEventListener('click', cancel);
+      overlay.addEventListener('keydown', event => {
+        if (event.key === 'Escape') {
+          cancel();
+        }
+      });
+
+      // Tabbing past either end of the dialog wraps around instead of leaving it
+      const focusGuard = (onFocus: () => void): HTMLElement => {
+        const guard = document.createElement('span');
+        guard.tabIndex = 0;
+        guard.style.position = 'absolute';
+        guard.style.width = '0';
+        guard.style.height = '0';
+        guard.style.overflow = 'hidden';
+        guard.addEventListener('focus', onFocus);
+        return guard;
+      };
+
+      dialog.appendChild(focusGuard(() => closeButton.focus()));
+      dialog.appendChild(iframe);
+      dialog.appendChild(closeButton);
+      dialog.appendChild(focusGuard(() => iframe.focus()));
+      overlay.appendChild(dialog);
+      mounted = overlay;
+    }
+
+    (container || document.body).appendChild(mounted);
+
+    // Remove the picker once the selection finishes, is cancelled or aborted
+    if (channel) {
+      channel.onClose = () => {
+        mounted.remove();
+        previousFocus?.focus?.();
+      };
+    }
+
+    if (!iframe.contentWindow) {
+      mounted.remove();
+      throw new OAuthError('Failed to create the embedded picker', 'POPUP_CREATION_FAILED');
+    }
+
+    iframe.focus();
+    return iframe.contentWindow;
   }
 
   /**
-   * Monitors a popup window and cleans up when it's closed
+   * Opens the message channel the picker page reports back on
+   * The picker is written into a blank popup or frame, so it shares this window's origin.
+   * Each selection gets its own channel, so selections can run side by side.
+   * 
+   * @param config OAuth configuration with success and error callbacks
+   * @returns The flow id to embed in the picker page
+   */
+  protected static setupOAuthHandler(config: OAuthConfig): string {
+    const { onSuccess, onError, onCancel, onProgress } = config;
+
+    const channel = BaseSelection.flows.open(
+      { onSuccess, onError, onCancel, onProgress },
+      window.origin || window.location.origin
+    );
+
+    return channel.id;
+  }
+
+  /**
+   * Stops listening for messages of a selection
+   * 
+   * @param flowId The flow id of the selection
+   */
+  protected static cleanupOAuthHandler(flowId: string): void {
+    BaseSelection.flows.close(flowId);
+  }
+
+  /**
+   * Describes a started selection so runPopupFlow can close it on abort
+   * 
+   * @param popup The selection popup
+   * @returns The started flow
+   */
+  protected static startedFlow(popup: Window | null): StartedFlow {
+    const channel = popup ? BaseSelection.flows.findByPopup(popup) : undefined;
+    return { popup, dispose: () => channel?.close() };
+  }
+
+  /**
+   * Monitors a popup window and reports cancellation when the user closes it
    * 
    * @param popup The popup window to monitor
+   * @param config OAuth configuration with the cancel callback
+   * @param flowId The flow id of the selection
    */
-  protected static monitorPopup(popup: Window | null): void {
+  protected static monitorPopup(popup: Window | null, config: OAuthConfig, flowId: string): void {
     if (!popup) {
       return; // Nothing to monitor
     }
+
+    const channel = BaseSelection.flows.get(flowId);
+    if (channel) {
+      channel.popup = popup;
+    }
     
     const checkPopup = setInterval(() => {
-      if (popup.closed) {
+      if (!channel || channel.isClosed) {
+        clearInterval(checkPopup);
+      } else if (popup.closed) {
         clearInterval(checkPopup);
-        delete (window as any).__oauthHandler;
+        channel.cancelAfter(config.popupClosedGraceMs ?? DEFAULT_POPUP_CLOSED_GRACE_MS);
       }
     }, 500);
   }
@@ -101,6 +302,6 @@ export abstract class BaseSelection {
     config: OAuthConfig,
     refreshToken: string,
     selectedFiles?: Record<string, { name: string; mimeType: string }>,
-    targetWindow?: Window
+    target?: PickerTarget
   ): Promise<Window | null>;
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+import {
+  OAuthError,
+  OAuthResponse,
+  RefreshedToken,
+  RequestOptions,
+  StoredToken,
+  TokenError,
+  TokenManagerEvents,
+  TokenManagerOptions,
+  TokenRefresher,
+  TokenStore
+} from '../types';
+
+/**
+ * Default time before expiry at which access tokens are refreshed
+ */
+const DEFAULT_SKEW_MS = 60 * 1000;
+
+/**
+ * Turns a relative expires_in into an absolute expiry
+ * @param expiresIn Lifetime of the access token, in seconds
+ * @param issuedAt When the token was issued, in milliseconds since the epoch
+ * @returns The expiry in milliseconds since the epoch, or undefined if the token doesn't expire
+ */
+export function getTokenExpiry(expiresIn: number | undefined, issuedAt: number = Date.now()): number | undefined {
+  return expiresIn ? issuedAt + expiresIn * 1000 : undefined;
+}
+
+/**
+ * In-memory token store used when no store is configured
+ */
+class MemoryTokenStore implements TokenStore {
+  private readonly tokens = new Map<string, StoredToken>();
+
+  get(key: string): StoredToken | undefined {
+    return this.tokens.get(key);
+  }
+
+  set(key: string, token: StoredToken): void {
+    this.tokens.set(key, token);
+  }
+
+  delete(key: string): void {
+    this.tokens.delete(key);
+  }
+}
+
+/**
+ * Keeps the tokens of users per connector and hands out valid access tokens
+ *
+ * Access tokens are refreshed shortly before they expire, and concurrent
+ * refreshes of the same user and connector are merged into one request.
+ */
+export class TokenManager {
+  private readonly refreshers: Record<string, TokenRefresher>;
+  private readonly skewMs: number;
+  private readonly store: TokenStore;
+  private readonly pendingRefreshes = new Map<string, Promise<StoredToken>>();
+  private readonly listeners: {
+    [K in keyof TokenManagerEvents]: Set<(event: TokenManagerEvents[K]) => void>
+  } = { refresh: new Set(), error: new Set() };
+
+  /**
+   * @param options Token refreshers per connector, refresh skew and token store
+   */
+  constructor(options: TokenManagerOptions = {}) {
+    this.refreshers = { ...options.refreshers };
+    this.skewMs = options.skewMs ?? DEFAULT_SKEW_MS;
+    this.store = options.store || new MemoryTokenStore();
+  }
+
+  /**
+   * Registers the token refresher of a connector
+   * @param connector The connector (e.g. "google-drive")
+   * @param refresher Exchanges a refresh token for a new access token
+   */
+  public setRefresher(connector: string, refresher: TokenRefresher): void {
+    this.refreshers[connector] = refresher;
+  }
+
+  /**
+   * Stores the tokens of a user, e.g. right after the OAuth flow
+   * @param userId The user the tokens belong to
+   * @param connector The connector the tokens belong to
+   * @param tokens The token response, or just the refresh token
+   */
+  public async setTokens(
+    userId: string,
+    connector: string,
+    tokens: Partial<OAuthResponse> | string
+  ): Promise<void> {
+    const stored: StoredToken = typeof tokens === 'string'
+      ? { refreshToken: tokens }
+      : {
+          accessToken: tokens.access_token,
+          refreshToken: tokens.refresh_token,
+          expiresAt: getTokenExpiry(tokens.expires_in),
+          tokenType: tokens.token_type
+        };
+
+    await this.store.set(this.key(userId, connector), stored);
+  }
+
+  /**
+   * Gets the stored tokens of a user
+   * @param userId The user the tokens belong to
+   * @param connector The connector the tokens belong to
+   * @returns The stored tokens, or undefined if there are none
+   */
+  public async getTokens(userId: string, connector: string): Promise<StoredToken | undefined> {
+    return this.store.get(this.key(userId, connector));
+  }
+
+  /**
+   * Removes the stored tokens of a user
+   * @param userId The user the tokens belong to
+   * @param connector The connector the tokens belong to
+   */
+  public async removeTokens(userId: string, connector: string): Promise<void> {
+    await this.store.delete(this.key(userId, connector));
+  }
+
+  /**
+   * Returns a valid access token, refreshing it first when it expires within the skew
+   * @param userId The user the token belongs to
+   * @param connector The connector the token belongs to
+   * @param options Optional abort signal and timeout of the refresh
+   * @returns A Promise that resolves with the access token
+   * @throws TokenError if no tokens are stored or the refresh fails
+   */
+  public async getAccessToken(userId: string, connector: string, options: RequestOptions = {}): Promise<string> {
+    const stored = await this.getTokens(userId, connector);
+    if (!stored) {
+      throw new TokenError(`No tokens stored for user ${userId} and connector ${connector}`);
+    }
+
+    if (stored.accessToken && !this.isExpiring(stored)) {
+      return stored.accessToken;
+    }
+
+    const refreshed = await this.refresh(userId, connector, options);
+    return refreshed.accessToken!;
+  }
+
+  /**
+   * Refreshes the access token of a user
+   * Concurrent calls for the same user and connector share one request.
+   * The timeout of the call that starts the request applies to it; aborting the signal
+   * only stops this call from waiting, so other callers still get the refreshed tokens.
+   * @param userId The user the token belongs to
+   * @param connector The connector the token belongs to
+   * @param options Optional abort signal and timeout
+   * @returns A Promise that resolves with the updated tokens
+   * @throws TokenError if no refresh token is stored or the refresh fails
+   */
+  public refresh(userId: string, connector: string, options: RequestOptions = {}): Promise<StoredToken> {
+    const key = this.key(userId, connector);
+
+    let pending = this.pendingRefreshes.get(key);
+    if (!pending) {
+      pending = this.performRefresh(userId, connector, { timeoutMs: options.timeoutMs })
+        .finally(() => this.pendingRefreshes.delete(key));
+      this.pendingRefreshes.set(key, pending);
+    }
+
+    const { signal } = options;
+    if (!signal) {
+      return pending;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new OAuthError('Token refresh was aborted', 'ABORTED'));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort);
+      pending!.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Subscribes to refresh or error events
+   * @param event The event name
+   * @param listener Called with the event details
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof TokenManagerEvents>(
+    event: K,
+    listener: (event: TokenManagerEvents[K]) => void
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private async performRefresh(userId: string, connector: string, options: RequestOptions): Promise<StoredToken> {
+    const key = this.key(userId, connector);
+
+    try {
+      const stored = await this.store.get(key);
+      if (!stored?.refreshToken) {
+        throw new TokenError(`No refresh token stored for user ${userId} and connector ${connector}`);
+      }
+
+      const refresher = this.refreshers[connector];
+      if (!refresher) {
+        throw new TokenError(`No token refresher registered for connector ${connector}`);
+      }
+
+      const refreshed: RefreshedToken = await refresher(stored.refreshToken, options);
+      const token: StoredToken = {
+        accessToken: refreshed.access_token,
+        refreshToken: refreshed.refresh_token || stored.refreshToken,
+        expiresAt: getTokenExpiry(refreshed.expires_in),
+        tokenType: refreshed.token_type || stored.tokenType
+      };
+
+      await this.store.set(key, token);
+      this.emit('refresh', { userId, connector, token });
+
+      return token;
+    } catch (error) {
+      const tokenError = error instanceof OAuthError ? error : new TokenError(
+        error instanceof Error ? error.message : 'Token refresh failed',
+        error
+      );
+      this.emit('error', { userId, connector, error: tokenError });
+      throw tokenError;
+    }
+  }
+
+  private isExpiring(token: StoredToken): boolean {
+    return token.expiresAt !== undefined && token.expiresAt - this.skewMs <= Date.now();
+  }
+
+  private emit<K extends keyof TokenManagerEvents>(event: K, details: TokenManagerEvents[K]): void {
+    this.listeners[event].forEach(listener => {
+      try {
+        listener(details);
+      } catch {
+        // A failing listener must not break token handling
+      }
+    });
+  }
+
+  private key(userId: string, connector: string): string {
+    return `${connector}:${userId}`;
+  }
+}
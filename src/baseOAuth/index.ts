@@ -3,7 +3,20 @@ export * from './types';
 
 // Export core functions
 export * from './core/apiFunctions';
+export * from './core/client';
 export * from './core/oauth';
+export * from './core/channel';
+export * from './core/tokenManager';
 
 // Export utility functions
-export * from './utils/validation';
\ No newline at end of file
+export * from './utils/validation';
+export * from './utils/state';
+export * from './utils/pkce';
+export * from './utils/tokenBroker';
+export * from './utils/redirect';
+export * from './utils/http';
+export * from './utils/selection';
+export * from './utils/html';
+
+// Export localization
+export * from './ui/i18n';
\ No newline at end of file
@@ -32,17 +32,355 @@ export class OAuthError extends Error {
     }
   }
   
+  /**
+   * Error thrown when an OAuth callback's state is missing, replayed or mismatched
+   */
+  export class StateError extends OAuthError {
+    constructor(message: string, details?: any) {
+      super(message, 'INVALID_STATE', details);
+      this.name = 'StateError';
+    }
+  }
+
+  /**
+   * Error thrown when an outbound request doesn't complete within its timeout
+   */
+  export class TimeoutError extends OAuthError {
+    constructor(message: string, public timeoutMs: number, details?: any) {
+      super(message, 'TIMEOUT', details);
+      this.name = 'TimeoutError';
+    }
+  }
+
+  /**
+   * Stable codes of VectorizeAPIError, derived from the HTTP status
+   */
+  export type VectorizeAPIErrorCode =
+    | 'BAD_REQUEST'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'CONFLICT'
+    | 'RATE_LIMITED'
+    | 'SERVER_ERROR'
+    | 'INVALID_RESPONSE'
+    | 'API_ERROR';
+
+  /**
+   * Error thrown when the Vectorize API returns an error response
+   */
+  export class VectorizeAPIError extends OAuthError {
+    constructor(
+      message: string,
+      public code: VectorizeAPIErrorCode,
+      public status: number,
+      public body?: any,        // Parsed JSON body, if the response had one
+      public rawBody?: string,  // Raw response text, for bodies that aren't JSON
+      public requestId?: string // Request id header of the response
+    ) {
+      super(message, code, body ?? rawBody);
+      this.name = 'VectorizeAPIError';
+    }
+
+    /**
+     * Maps an HTTP status to a stable error code
+     * @param status The HTTP status
+     * @returns The error code
+     */
+    static codeForStatus(status: number): VectorizeAPIErrorCode {
+      switch (status) {
+        case 400: return 'BAD_REQUEST';
+        case 401: return 'UNAUTHORIZED';
+        case 403: return 'FORBIDDEN';
+        case 404: return 'NOT_FOUND';
+        case 409: return 'CONFLICT';
+        case 429: return 'RATE_LIMITED';
+        default: return status >= 500 ? 'SERVER_ERROR' : 'API_ERROR';
+      }
+    }
+
+    /**
+     * Creates an error from a failed response
+     * The body is read as text, so HTML or empty bodies don't cause a second failure.
+     * @param response The failed response
+     * @param message What the request was trying to do, e.g. "Failed to create connector"
+     * @returns A Promise that resolves with the error
+     */
+    static async fromResponse(response: Response, message: string): Promise<VectorizeAPIError> {
+      const rawBody = await response.text().catch(() => '');
+
+      let body: any;
+      try {
+        body = rawBody ? JSON.parse(rawBody) : undefined;
+      } catch {
+        body = undefined;
+      }
+
+      const detail = body?.error || body?.message || (body ? JSON.stringify(body) : rawBody.slice(0, 200)) || response.statusText;
+      const requestId = response.headers.get('x-request-id') || response.headers.get('request-id') || undefined;
+
+      return new VectorizeAPIError(
+        `${message}. Status: ${response.status}, Error: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`,
+        VectorizeAPIError.codeForStatus(response.status),
+        response.status,
+        body,
+        rawBody,
+        requestId
+      );
+    }
+  }
+
   /**
    * Base configuration options for OAuth authentication
+   * TResult is the connector's selection result; it is unknown unless a connector config narrows it.
    */
-  export interface OAuthConfig {
+  export interface OAuthConfig<TResult = unknown> {
     redirectUri: string;
     scopes?: string[];
     nonce?: string;
-    onSuccess?: (selectedFields?: any) => void;
+    pkce?: boolean;          // Use PKCE (S256) for the authorization code exchange
+    tokenBroker?: TokenBrokerConfig; // Keep refresh tokens on the server (token broker mode)
+    // Called with the connector's selection result. Declared as a method, so a
+    // connector's config is still accepted where OAuthConfig<unknown> is expected
+    onSuccess?(result: TResult): void;
     onError?: (error: OAuthError) => void;
+    onCancel?: () => void;   // Called when the user closes the popup before the flow finishes
+    onProgress?: (progress: any) => void;
+    popupClosedGraceMs?: number; // How long to wait for a result after the popup closes before reporting cancellation
+    theme?: ConnectTheme;    // Branding of the picker, callback and error pages
+    locale?: string;         // BCP 47 language tag of the picker, callback and error pages (defaults to 'en')
+    messages?: Partial<ConnectMessages>; // Overrides of individual page strings, e.g. to reword them
+  }
+
+  /**
+   * Colors of the picker, callback and error pages, as CSS color values
+   * Unset colors fall back to the page's default palette.
+   */
+  export interface ThemeColors {
+    primary?: string;        // Buttons, links and focus outlines
+    primaryHover?: string;
+    accent?: string;         // The button that finishes the selection
+    accentHover?: string;
+    background?: string;     // Page background
+    surface?: string;        // Cards and list items
+    surfaceHover?: string;
+    text?: string;
+    mutedText?: string;
+    border?: string;
+    error?: string;
+  }
+
+  /**
+   * Branding of the pages the SDK renders
+   * Every value is exposed as a CSS variable (e.g. --vc-color-primary), so customCss can build on them.
+   */
+  export interface ConnectTheme {
+    colors?: ThemeColors;
+    fontFamily?: string;     // CSS font-family stack
+    borderRadius?: string;   // Corner radius of buttons and cards, e.g. '4px'
+    logoUrl?: string;        // Logo shown in the page header
+    productName?: string;    // Shown in the page header and the window title
+    customCss?: string;      // Appended after the built-in styles
+  }
+
+  /**
+   * Message with one form per plural category of the locale
+   * The form is picked with Intl.PluralRules for the count; 'other' is used when a category is missing.
+   */
+  export interface PluralMessage {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+  }
+
+  /**
+   * Strings shown on the picker, callback and error pages
+   * Placeholders like {count} are replaced with the values of the same name.
+   */
+  export interface ConnectMessages {
+    // File pickers (Google Drive and Dropbox)
+    pickerHeading: string;
+    pickerSelectFiles: string;
+    pickerFinishSelection: string;
+    pickerNoFilesSelected: string;
+    pickerFilesSelected: PluralMessage;    // {count}
+    pickerFileType: string;                // {type}
+    pickerRemoveFile: string;              // {name}
+    pickerImportant: string;
+    pickerCompatibilityWarning: string;
+    pickerClose: string;                   // Close button of embedded pickers
+    // Google Drive
+    googleDriveTitle: string;
+    googleDriveSizeWarning: string;
+    googleDriveMyDrive: string;
+    googleDriveSharedDrives: string;
+    googleDriveSharedWithMe: string;
+    // Dropbox
+    dropboxTitle: string;
+    // Notion
+    notionTitle: string;
+    notionLoading: string;
+    notionCancel: string;
+    notionSaveSelection: string;
+    notionAvailableResources: string;
+    notionSelectAll: string;
+    notionDeselectAll: string;
+    notionSelectedItems: string;
+    notionNoItemsSelected: string;
+    notionItemsSelected: PluralMessage;    // {count}
+    notionNoResources: string;
+    notionLoadError: string;
+    notionUntitledDatabase: string;
+    notionUntitledPage: string;
+    notionOpenInNotion: string;
+    notionRemoveItem: string;              // {name}
+    // Callback error page
+    errorTitle: string;
+    errorWindowCloses: string;
+  }
+
+  /**
+   * Identifies messages sent by Vectorize Connect pages
+   */
+  export const FLOW_MESSAGE_SOURCE = 'vectorize-connect';
+
+  /**
+   * Types of messages a callback or picker page sends to the page that started the flow
+   */
+  export type FlowMessageType = 'success' | 'error' | 'cancel' | 'progress';
+
+  /**
+   * Message sent from a callback or picker page over the flow channel
+   */
+  export interface FlowMessage<T = any> {
+    source: typeof FLOW_MESSAGE_SOURCE;
+    channelId: string;   // Id of the flow the message belongs to
+    id: string;          // Unique message id, used to drop duplicates
+    type: FlowMessageType;
+    payload?: T;
   }
   
+  /**
+   * Token broker mode configuration
+   * The picker page only receives short-lived access tokens and asks the broker
+   * endpoint for fresh ones; refresh tokens are sealed into opaque handles.
+   */
+  export interface TokenBrokerConfig {
+    endpoint: string;   // URL of the route that calls createTokenBrokerResponse
+    secret?: string;    // Server-side secret used to seal token handles (never set this in the browser)
+    scopes?: string[];  // Optional narrower scopes for the access tokens handed to the page
+    handleTtlSeconds?: number; // Lifetime of the token handles (defaults to 15 minutes)
+  }
+
+  /**
+   * Token broker details embedded in a picker page
+   */
+  export interface PickerTokenBroker {
+    endpoint: string;   // URL of the token broker route
+    handle: string;     // Sealed handle identifying the user's grant
+  }
+
+  /**
+   * Options for the promise-based OAuth and selection methods
+   */
+  export interface FlowOptions {
+    signal?: AbortSignal;  // Aborting closes the popup and rejects with an ABORTED OAuthError
+  }
+
+  /**
+   * Options for functions that make outbound requests
+   */
+  export interface RequestOptions {
+    signal?: AbortSignal;  // Aborting cancels the request and rejects with an ABORTED OAuthError
+    timeoutMs?: number;    // Time limit for the call including retries; exceeding it rejects with a TimeoutError
+  }
+
+  /**
+   * Outbound request as seen by interceptors
+   */
+  export interface HttpRequest {
+    url: string;
+    init: RequestInit;
+  }
+
+  /**
+   * Intercepts outbound requests
+   * Call next to continue with the (possibly changed) request and inspect its response,
+   * or return a Response without calling next to short-circuit the request.
+   */
+  export type Interceptor = (
+    request: HttpRequest,
+    next: (request: HttpRequest) => Promise<Response>
+  ) => Promise<Response>;
+
+  /**
+   * Transport used for outbound requests
+   */
+  export interface TransportOptions {
+    fetch?: typeof fetch;          // Custom fetch implementation
+    interceptors?: Interceptor[];  // Interceptors, run in order around every attempt of a request
+  }
+
+  /**
+   * Options for the promise-based authorize methods
+   */
+  export interface AuthorizeOptions<TItem = Record<string, any>> extends FlowOptions {
+    previousSelection?: Record<string, TItem> | null; // Earlier selection of the user, compared with the new one in the result's changes
+  }
+
+  /**
+   * Changes between two selections, keyed like the selections themselves
+   */
+  export interface SelectionDiff<TItem = Record<string, any>> {
+    added: Record<string, TItem>;      // In the new selection only
+    removed: Record<string, TItem>;    // In the previous selection only
+    unchanged: Record<string, TItem>;  // In both selections, with the new metadata
+  }
+
+  /**
+   * Options for the promise-based file selection methods
+   */
+  export interface SelectionOptions extends FlowOptions {
+    targetWindow?: Window; // Existing window to render the picker in instead of a new popup
+    embed?: EmbedOptions;  // Renders the picker inside the page instead of a popup; ignored when targetWindow is set
+  }
+
+  /**
+   * Options for rendering a picker inside the page instead of a popup
+   */
+  export interface EmbedOptions {
+    container?: HTMLElement; // Element to mount the picker into; a modal overlay is shown when omitted
+    width?: string;          // Width of the modal overlay (defaults to '80%')
+    height?: string;         // Height of the modal overlay (defaults to '80%')
+  }
+
+  /**
+   * Where a picker is rendered: an existing window, or inside the page
+   */
+  export type PickerTarget = Window | EmbedOptions;
+
+  /**
+   * Options for starting an OAuth flow in redirect mode
+   */
+  export interface RedirectOptions {
+    returnUrl?: string;  // Page to return to when the flow finishes (defaults to the current page)
+    selectedFiles?: Record<string, { name: string; mimeType: string }>; // Files to preselect in the picker
+  }
+
+  /**
+   * Result of a file picker flow, as sent by the picker page
+   */
+  export interface FileSelectionResult {
+    connector: string;      // Connector that produced the result, e.g. "google-drive"
+    selectedFiles: Record<string, { name: string; mimeType: string }>;
+    refreshToken?: string;  // Set unless token broker mode is used
+    tokenHandle?: string;   // Set in token broker mode instead of the refresh token
+    changes?: SelectionDiff<{ name: string; mimeType: string }>; // Set by the promise-based methods
+  }
+
   /**
    * Response from OAuth token exchange
    */
@@ -53,6 +391,58 @@ export class OAuthError extends Error {
     token_type: string;
   }
   
+  /**
+   * Tokens of one user and connector, as kept by a TokenManager
+   */
+  export interface StoredToken {
+    accessToken?: string;
+    refreshToken?: string;
+    expiresAt?: number;    // Absolute expiry of the access token, in milliseconds since the epoch
+    tokenType?: string;
+  }
+
+  /**
+   * Access token returned by a token refresher
+   */
+  export interface RefreshedToken {
+    access_token: string;
+    expires_in?: number;
+    token_type?: string;
+    refresh_token?: string; // Set when the provider rotates the refresh token
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token
+   */
+  export type TokenRefresher = (refreshToken: string, options?: RequestOptions) => Promise<RefreshedToken>;
+
+  /**
+   * Storage used by a TokenManager; defaults to an in-memory map
+   * Implement this to share tokens between processes, e.g. in Redis.
+   */
+  export interface TokenStore {
+    get(key: string): StoredToken | undefined | Promise<StoredToken | undefined>;
+    set(key: string, token: StoredToken): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+  }
+
+  /**
+   * Options for a TokenManager
+   */
+  export interface TokenManagerOptions {
+    refreshers?: Record<string, TokenRefresher>; // Token refreshers keyed by connector (e.g. "google-drive")
+    skewMs?: number;       // Refresh this long before the access token expires (defaults to 60 seconds)
+    store?: TokenStore;
+  }
+
+  /**
+   * Events emitted by a TokenManager
+   */
+  export interface TokenManagerEvents {
+    refresh: { userId: string; connector: string; token: StoredToken };
+    error: { userId: string; connector: string; error: OAuthError };
+  }
+
   /**
    * Generic file interface that can be extended by specific connectors
    */
@@ -72,7 +462,7 @@ export class OAuthError extends Error {
   /**
    * Configuration for Vectorize API
    */
-  export interface VectorizeAPIConfig {
+  export interface VectorizeAPIConfig extends TransportOptions {
     authorization: string;
     organizationId: string;
   }
@@ -85,8 +475,104 @@ export class OAuthError extends Error {
     type: string;
     config?: Record<string, any>;
   }
+
+  /**
+   * Source connector returned by the Vectorize API
+   */
+  export interface SourceConnector<TType extends string = string> {
+    id: string;
+    name: string;
+    type: TType;
+    configDoc?: Record<string, any>;  // Connector configuration; secrets are not returned
+    createdAt?: string;
+    createdById?: string;
+    createdByEmail?: string;
+    lastUpdatedById?: string;
+    lastUpdatedByEmail?: string;
+    verificationStatus?: string;
+    errorMessage?: string;
+  }
+
+  /**
+   * Changes to a source connector
+   */
+  export interface SourceConnectorUpdate {
+    name?: string;                    // New name of the connector
+    config?: Record<string, any>;     // Configuration fields to replace, e.g. white label OAuth credentials
+  }
   
+  /**
+   * User of a source connector with their current selection
+   */
+  export interface ConnectorUser {
+    userId: string;
+    selectedFiles?: Record<string, { name: string; mimeType: string; path?: string }>;     // Google Drive and Dropbox connectors
+    selectedPages?: Record<string, { title: string; pageId: string; parentType?: string }>; // Notion connectors
+    createdAt?: string;
+    updatedAt?: string;
+  }
+
+  /**
+   * One page of the users of a source connector
+   */
+  export interface ConnectorUserPage {
+    users: ConnectorUser[];
+    nextCursor?: string;  // Cursor of the next page, absent on the last page
+  }
+
   /**
    * Actions that can be performed when managing users
    */
-  export type UserAction = "add" | "edit" | "remove";
\ No newline at end of file
+  export type UserAction = "add" | "edit" | "remove";
+
+  /**
+   * One user operation of a bulk request
+   */
+  export interface BulkUserOperation {
+    id?: string;                    // Unique id of the operation in checkpoints; defaults to its position in the request
+    userId: string;
+    action: UserAction;
+    payload?: Record<string, any>;  // Connector-specific payload, as for manageUser
+  }
+
+  /**
+   * Outcome of one operation of a bulk request
+   */
+  export interface BulkUserResult {
+    index: number;          // Position of the operation in the request
+    userId: string;
+    action: UserAction;
+    success: boolean;
+    status?: number;        // HTTP status of the response
+    error?: OAuthError;
+  }
+
+  /**
+   * Progress of a bulk request that can be stored and passed back to resume it
+   */
+  export interface BulkCheckpoint {
+    completed: string[];    // Keys ("id:<id>" or "index:<position>") of the operations that succeeded
+  }
+
+  /**
+   * Options for bulk user management
+   */
+  export interface BulkManageUsersOptions extends RequestOptions {
+    concurrency?: number;        // Maximum number of requests in flight (defaults to 5)
+    requestsPerSecond?: number;  // Maximum number of requests started per second (unlimited by default)
+    checkpoint?: BulkCheckpoint; // Operations completed by an earlier run are skipped
+    onResult?: (result: BulkUserResult, checkpoint: BulkCheckpoint) => void; // Called after each operation, e.g. to persist the checkpoint
+  }
+
+  /**
+   * Report of a bulk request
+   */
+  export interface BulkManageUsersReport {
+    results: BulkUserResult[];   // Results of the operations run, ordered by index
+    succeeded: number;
+    failed: number;
+    skipped: number;             // Operations skipped because the checkpoint marked them completed
+    pending: number[];           // Positions of the operations the signal stopped, including those in flight
+    aborted: boolean;            // Whether the signal stopped the run before all operations finished
+    checkpoint: BulkCheckpoint;  // Pass to a new run with the same operations to retry what is left
+  }
\ No newline at end of file
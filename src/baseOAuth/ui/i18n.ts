@@ -0,0 +1,155 @@
+import { ConnectMessages, PluralMessage } from '../types';
+import { serializeForScript } from '../utils/html';
+
+/**
+ * Values substituted for the placeholders of a message
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Strings of one locale, resolved for a page
+ */
+export interface Translator {
+  locale: string;            // Canonical language tag, e.g. 'de-AT'
+  dir: 'ltr' | 'rtl';        // Text direction of the locale
+  messages: ConnectMessages; // The resolved catalog, including fallbacks and overrides
+  t(key: keyof ConnectMessages, params?: MessageParams): string;
+}
+
+/**
+ * Built-in English strings, used for every message a locale doesn't translate
+ */
+export const DEFAULT_MESSAGES: ConnectMessages = {
+  pickerHeading: 'Selected Files and Folders',
+  pickerSelectFiles: 'Select Files/Folders',
+  pickerFinishSelection: 'Finish Selection',
+  pickerNoFilesSelected: 'No files selected',
+  pickerFilesSelected: { one: '{count} item selected', other: '{count} items selected' },
+  pickerFileType: 'Type: {type}',
+  pickerRemoveFile: 'Remove {name}',
+  pickerImportant: 'Important:',
+  pickerCompatibilityWarning: 'Some files might have limitations when accessed through the API. Please check the file compatibility with this connector.',
+  pickerClose: 'Close',
+  googleDriveTitle: 'Google Drive File Selector',
+  googleDriveSizeWarning: 'Google Workspace documents like presentations and Google Docs cannot be exported if they are larger than 10MB. Please convert such files to a compatible format (e.g., PDF) before selection if you need to process them.',
+  googleDriveMyDrive: 'My Drive',
+  googleDriveSharedDrives: 'Shared Drives',
+  googleDriveSharedWithMe: 'Shared with me',
+  dropboxTitle: 'Dropbox File Selector',
+  notionTitle: 'Select Notion Resources',
+  notionLoading: 'Loading resources...',
+  notionCancel: 'Cancel',
+  notionSaveSelection: 'Save Selection',
+  notionAvailableResources: 'Available Resources',
+  notionSelectAll: 'Select All',
+  notionDeselectAll: 'Deselect All',
+  notionSelectedItems: 'Selected Items',
+  notionNoItemsSelected: 'No items selected',
+  notionItemsSelected: { one: '{count} item selected', other: '{count} items selected' },
+  notionNoResources: 'No resources available',
+  notionLoadError: 'Failed to load resources from Notion. Please try again.',
+  notionUntitledDatabase: 'Untitled Database',
+  notionUntitledPage: 'Untitled Page',
+  notionOpenInNotion: 'Open in Notion',
+  notionRemoveItem: 'Remove {name}',
+  errorTitle: 'Authentication Error',
+  errorWindowCloses: 'This window will close automatically.'
+};
+
+/**
+ * Languages written right to left
+ */
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ps', 'ur', 'yi'];
+
+/**
+ * Translations registered with registerMessages, by lower-case language tag
+ */
+const catalogs: Record<string, Partial<ConnectMessages>> = {};
+
+/**
+ * Registers the translations of a locale for all pages rendered in this environment
+ * Registering the same locale again merges the messages into the existing ones.
+ * A page for 'de-AT' uses the 'de-AT' messages, then the 'de' messages, then English.
+ *
+ * @param locale Language tag, e.g. 'de' or 'pt-BR'
+ * @param messages Translated messages; missing ones fall back to the base language and English
+ */
+export function registerMessages(locale: string, messages: Partial<ConnectMessages>): void {
+  const key = locale.toLowerCase();
+  catalogs[key] = { ...catalogs[key], ...messages };
+}
+
+/**
+ * Canonicalizes a language tag, falling back to English for invalid tags
+ */
+function canonicalLocale(locale?: string): string {
+  try {
+    return (locale && Intl.getCanonicalLocales(locale)[0]) || 'en';
+  } catch {
+    return 'en';
+  }
+}
+
+/**
+ * Replaces the placeholders of a message
+ */
+function format(message: string, params?: MessageParams): string {
+  return message.replace(/\{(\w+)\}/g, (match, name) => params && name in params ? String(params[name]) : match);
+}
+
+/**
+ * Resolves the strings of a page
+ *
+ * @param locale Optional language tag; defaults to English
+ * @param overrides Optional messages taking precedence over the registered translations
+ * @returns A translator for the locale
+ */
+export function createTranslator(locale?: string, overrides?: Partial<ConnectMessages>): Translator {
+  const canonical = canonicalLocale(locale);
+  const language = canonical.split('-')[0].toLowerCase();
+
+  const messages: ConnectMessages = {
+    ...DEFAULT_MESSAGES,
+    ...catalogs[language],
+    ...catalogs[canonical.toLowerCase()],
+    ...overrides
+  };
+  const pluralRules = new Intl.PluralRules(canonical);
+
+  return {
+    locale: canonical,
+    dir: RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr',
+    messages,
+    t(key, params) {
+      const message: string | PluralMessage = messages[key];
+      if (typeof message === 'string') {
+        return format(message, params);
+      }
+
+      const count = Number(params?.count ?? 0);
+      return format(message[pluralRules.select(count)] ?? message.other, params);
+    }
+  };
+}
+
+/**
+ * Creates a script defining translate(key, params) for the page, with the same
+ * placeholder and plural handling as Translator.t
+ *
+ * @param translator The translator of the page
+ * @returns JavaScript for the page's script element
+ */
+export function createTranslationScript(translator: Translator): string {
+  return `
+    const messages = ${serializeForScript(translator.messages)};
+    const pluralRules = new Intl.PluralRules(${serializeForScript(translator.locale)});
+
+    function translate(key, params) {
+      let message = messages[key];
+      if (typeof message !== 'string') {
+        message = message[pluralRules.select(Number(params && params.count || 0))] || message.other;
+      }
+      return message.replace(/\\{(\\w+)\\}/g, (match, name) => params && name in params ? String(params[name]) : match);
+    }
+  `;
+}
@@ -1,10 +1,19 @@
-import { OAuthResponse, OAuthConfig } from '../types';
+import { OAuthResponse, OAuthConfig, PickerTokenBroker, ConnectTheme } from '../types';
+import { createChannelScript } from '../core/channel';
+import { createEscapeScript, html, nonceAttribute, serializeForScript } from '../utils/html';
+import { createBrandingHTML, createPageTitle, createThemeStyles } from './theme';
+import { createTranslationScript, createTranslator, Translator } from './i18n';
 
 /**
  * Base Picker class providing common file selection functionality
  * Can be extended by specific connector implementations
  */
 export abstract class BasePicker {
+  /**
+   * Connector the picker belongs to, sent as the discriminant of the selection result
+   */
+  protected abstract readonly connector: string;
+
   /**
    * Abstract method to create HTML template for the picker page
    * Must be implemented by subclasses for connector-specific picker UI
@@ -26,66 +35,98 @@ export abstract class BasePicker {
    * Generates common UI elements for the picker
    * This can be used by subclass implementations to maintain a consistent look
    * 
+   * @param theme Optional theme whose logo and product name are shown in the header
+   * @param translator Strings of the page's locale (defaults to English)
    * @returns Object containing HTML template strings
    */
-  protected getCommonUIElements(): { 
+  protected getCommonUIElements(theme?: ConnectTheme, translator: Translator = createTranslator()): { 
     header: string; 
     warning: string; 
     fileListContainer: string; 
     submitButtonContainer: string; 
     scripts: {
-      basePickerScript: (tokens: any, config: any, refreshToken: string, preSelectedFiles: any) => string;
+      basePickerScript: (
+        tokens: any,
+        config: any,
+        refreshToken: string,
+        preSelectedFiles: any,
+        tokenBroker?: PickerTokenBroker,
+        channelId?: string
+      ) => string;
     }
   } {
+    const { t } = translator;
+
     return {
-      header: `
+      header: html`
+        ${createBrandingHTML(theme)}
         <div class="flex justify-between items-center">
-          <h1 class="text-2xl font-bold">Selected Files and Folders</h1>
+          <h1 id="pickerHeading" class="text-2xl font-bold">${t('pickerHeading')}</h1>
           <button
             id="selectMoreButton"
-            class="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors"
+            class="bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary-hover transition-colors"
           >
-            Select Files/Folders
+            ${t('pickerSelectFiles')}
           </button>
         </div>
-      `,
-      warning: `
-        <div class="bg-yellow-50 border-l-4 border-yellow-400 p-4 my-4">
+      `.toString(),
+      warning: html`
+        <div class="bg-yellow-50 border-s-4 border-yellow-400 p-4 my-4">
           <div class="flex">
             <div class="flex-shrink-0">
-              <svg class="h-5 w-5 text-yellow-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+              <svg class="h-5 w-5 text-yellow-400" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                 <path fill-rule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clip-rule="evenodd" />
               </svg>
             </div>
-            <div class="ml-3">
+            <div class="ms-3">
               <p class="text-sm text-yellow-700">
-                <span class="font-medium">Important:</span> Some files might have limitations when accessed through the API. Please check the file compatibility with this connector.
+                <span class="font-medium">${t('pickerImportant')}</span> ${t('pickerCompatibilityWarning')}
               </p>
             </div>
           </div>
         </div>
-      `,
-      fileListContainer: `
-        <div id="fileList" class="space-y-4">
-          <p>No files selected</p>
-        </div>
-      `,
-      submitButtonContainer: `
+      `.toString(),
+      fileListContainer: html`
+        <p id="selectionCount" class="text-sm text-muted" aria-hidden="true"></p>
+        <div id="selectionStatus" class="sr-only" role="status" aria-live="polite"></div>
+        <p id="emptyFileList">${t('pickerNoFilesSelected')}</p>
+        <div
+          id="fileList"
+          class="space-y-4"
+          role="listbox"
+          aria-multiselectable="true"
+          aria-labelledby="pickerHeading"
+        ></div>
+      `.toString(),
+      submitButtonContainer: html`
         <div id="submitButton" class="flex justify-end mt-6" style="display: none;">
           <button
             id="finishButton"
-            class="bg-green-500 text-white px-6 py-3 rounded-lg hover:bg-green-600 transition-colors"
+            class="bg-accent text-white px-6 py-3 rounded-lg hover:bg-accent-hover transition-colors"
           >
-            Finish Selection
+            ${t('pickerFinishSelection')}
           </button>
         </div>
-      `,
+      `.toString(),
       scripts: {
-        basePickerScript: (tokens, config, refreshToken, preSelectedFiles) => `
-          const tokens = ${JSON.stringify(tokens)};
-          const config = ${JSON.stringify(config)};
-          const refreshToken = ${JSON.stringify(refreshToken)};
-          const preSelectedFiles = ${JSON.stringify(preSelectedFiles || {})};
+        basePickerScript: (tokens, config, refreshToken, preSelectedFiles, tokenBroker, channelId) => `
+          ${createChannelScript(channelId)}
+
+          // Only the short-lived access token is exposed to the page
+          let tokens = ${serializeForScript({
+            access_token: tokens.access_token,
+            expires_in: tokens.expires_in,
+            token_type: tokens.token_type
+          })};
+          const config = ${serializeForScript(config)};
+          const refreshToken = ${serializeForScript(tokenBroker ? null : refreshToken)};
+          const tokenBroker = ${serializeForScript(tokenBroker || null)};
+          const connector = ${serializeForScript(this.connector)};
+          // Redirect flows carry the preselected files across the round trip
+          const preSelectedFiles = (redirectFlow && redirectFlow.selectedFiles) || ${serializeForScript(preSelectedFiles || {})};
+          // Without an access token (token broker mode) the first call asks the broker for one
+          let tokenExpiresAt = tokens.access_token ? Date.now() + ((tokens.expires_in || 3600) - 60) * 1000 : 0;
+          // Files in the list; a file the user deselected stays listed with selected set to false
           let selectedFiles = [];
           
           // Initialize selected files from pre-selected ones if provided
@@ -93,46 +134,93 @@ export abstract class BasePicker {
             selectedFiles = Object.entries(preSelectedFiles).map(([id, details]) => ({
               id,
               name: details.name,
-              mimeType: details.mimeType
+              mimeType: details.mimeType,
+              selected: true
             }));
           }
   
+          // Returns a valid access token, asking the token broker for a new one when it expired
+          async function getAccessToken() {
+            if (!tokenBroker || Date.now() < tokenExpiresAt) {
+              return tokens.access_token;
+            }
+
+            const response = await fetch(tokenBroker.endpoint, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              credentials: 'same-origin',
+              body: JSON.stringify({ action: 'token', handle: tokenBroker.handle })
+            });
+
+            if (!response.ok) {
+              throw new Error('Failed to get a fresh access token from the token broker');
+            }
+
+            tokens = await response.json();
+            tokenExpiresAt = Date.now() + ((tokens.expires_in || 3600) - 60) * 1000;
+            return tokens.access_token;
+          }
+
           function handleError(error) {
-            const errorObj = new (window.opener.OAuthError || Error)(
-              error.message || 'An error occurred in the picker',
-              error.code || 'PICKER_ERROR',
-              error.details
-            );
-            window.opener.__oauthHandler.onError(errorObj);
+            sendFlowMessage('error', {
+              message: error.message || 'An error occurred in the picker',
+              code: error.code || 'PICKER_ERROR',
+              details: error.details
+            });
             window.close();
           }
   
-          function updateFileList() {
+          // Index of the file option that takes part in the tab order
+          let activeIndex = 0;
+
+          function getCheckedFiles() {
+            return selectedFiles.filter(file => file.selected);
+          }
+
+          function updateFileList(focusIndex) {
             const fileList = document.getElementById('fileList');
             const submitButton = document.getElementById('submitButton');
+            const checkedCount = getCheckedFiles().length;
+
+            document.getElementById('selectionCount').textContent = selectedFiles.length
+              ? translate('pickerFilesSelected', { count: checkedCount })
+              : '';
+            document.getElementById('selectionStatus').textContent = translate('pickerFilesSelected', { count: checkedCount });
+            document.getElementById('emptyFileList').style.display = selectedFiles.length ? 'none' : 'block';
+            activeIndex = Math.max(0, Math.min(focusIndex ?? activeIndex, selectedFiles.length - 1));
   
             if (selectedFiles.length === 0) {
-              fileList.innerHTML = '<p>No files selected</p>';
+              fileList.innerHTML = '';
               submitButton.style.display = 'none';
               return;
             }
   
-            fileList.innerHTML = selectedFiles.map(file =>
-              \`<div class="group p-4 border rounded-lg flex justify-between items-center hover:bg-gray-50">
-                <div>
-                  <p class="font-medium text-gray-800">
-                    \${file.name}
+            fileList.innerHTML = selectedFiles.map((file, index) =>
+              \`<div
+                role="option"
+                aria-selected="\${file.selected}"
+                aria-keyshortcuts="Delete Backspace"
+                tabindex="\${index === activeIndex ? 0 : -1}"
+                data-file-id="\${escapeHtml(file.id)}"
+                class="file-option group p-4 border rounded-lg bg-surface flex justify-between items-center hover:bg-surface-hover"
+              >
+                <span class="file-check" aria-hidden="true">\${file.selected ? '&#10003;' : ''}</span>
+                <div class="flex-1">
+                  <p class="font-medium text-body">
+                    \${escapeHtml(file.name)}
                   </p>
-                  <p class="text-sm text-gray-500">
-                    Type: \${file.mimeType}
+                  <p class="text-sm text-muted">
+                    \${escapeHtml(translate('pickerFileType', { type: file.mimeType }))}
                   </p>
                 </div>
                 <button
-                  data-file-id="\${file.id}"
-                  class="remove-file-btn p-2 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
-                  aria-label="Remove file"
+                  data-file-id="\${escapeHtml(file.id)}"
+                  class="remove-file-btn p-2 text-muted hover:text-error hover:bg-red-50 rounded-full transition-colors"
+                  title="\${escapeHtml(translate('pickerRemoveFile', { name: file.name }))}"
+                  aria-label="\${escapeHtml(translate('pickerRemoveFile', { name: file.name }))}"
+                  tabindex="-1"
                 >
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                     <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
                   </svg>
                 </button>
@@ -142,40 +230,143 @@ export abstract class BasePicker {
             // Attach event listeners to remove buttons
             document.querySelectorAll('.remove-file-btn').forEach(btn => {
               btn.addEventListener('click', (e) => {
+                e.stopPropagation();
                 const fileId = e.currentTarget.getAttribute('data-file-id');
                 removeFile(fileId);
               });
             });
   
             submitButton.style.display = 'flex';
+            document.getElementById('finishButton').disabled = checkedCount === 0;
+          }
+
+          function focusFileOption(index) {
+            const options = document.querySelectorAll('#fileList [role="option"]');
+            if (!options.length) {
+              return;
+            }
+
+            activeIndex = Math.max(0, Math.min(index, options.length - 1));
+            options.forEach((option, optionIndex) => option.setAttribute('tabindex', optionIndex === activeIndex ? '0' : '-1'));
+            options[activeIndex].focus();
           }
   
+          // Removes a file and moves focus to the file that took its place,
+          // or back to the select button once the list is empty
           function removeFile(fileId) {
+            const index = selectedFiles.findIndex(file => file.id === fileId);
             selectedFiles = selectedFiles.filter(file => file.id !== fileId);
+            updateFileList(index);
+
+            if (selectedFiles.length) {
+              focusFileOption(index);
+            } else {
+              document.getElementById('selectMoreButton')?.focus();
+            }
+          }
+
+          // Selects or deselects a file while keeping it in the list
+          function toggleFile(fileId) {
+            const index = selectedFiles.findIndex(file => file.id === fileId);
+            if (index < 0) {
+              return;
+            }
+
+            selectedFiles[index].selected = !selectedFiles[index].selected;
+            updateFileList(index);
+            focusFileOption(index);
+          }
+
+          // Adds the files picked in the provider's picker; picking a file that
+          // is already listed selects it again instead of listing it twice
+          function addFiles(files) {
+            files.forEach(file => {
+              const existing = selectedFiles.find(listed => listed.id === file.id);
+              if (existing) {
+                existing.selected = true;
+              } else {
+                selectedFiles.push({ ...file, selected: true });
+              }
+            });
             updateFileList();
           }
+
+          document.getElementById('fileList')?.addEventListener('click', (e) => {
+            const option = e.target.closest('[role="option"]');
+            if (option) {
+              toggleFile(option.getAttribute('data-file-id'));
+            }
+          });
+
+          // Arrow keys, Home and End move between the files, Space and Enter select
+          // or deselect the focused one and Delete or Backspace remove it from the list
+          document.getElementById('fileList')?.addEventListener('keydown', (e) => {
+            const option = e.target.closest('[role="option"]');
+            if (!option) {
+              return;
+            }
+
+            const options = Array.from(document.querySelectorAll('#fileList [role="option"]'));
+            const index = options.indexOf(option);
+
+            switch (e.key) {
+              case 'ArrowDown':
+                focusFileOption(index + 1);
+                break;
+              case 'ArrowUp':
+                focusFileOption(index - 1);
+                break;
+              case 'Home':
+                focusFileOption(0);
+                break;
+              case 'End':
+                focusFileOption(options.length - 1);
+                break;
+              case ' ':
+              case 'Enter':
+                toggleFile(option.getAttribute('data-file-id'));
+                break;
+              case 'Delete':
+              case 'Backspace':
+                removeFile(option.getAttribute('data-file-id'));
+                break;
+              default:
+                return;
+            }
+            e.preventDefault();
+          });
+
+          document.getElementById('fileList')?.addEventListener('focusin', (e) => {
+            const options = Array.from(document.querySelectorAll('#fileList [role="option"]'));
+            const index = options.indexOf(e.target);
+            if (index >= 0) {
+              activeIndex = index;
+              options.forEach((option, optionIndex) => option.setAttribute('tabindex', optionIndex === index ? '0' : '-1'));
+            }
+          });
   
           async function finishSelection() {
             try {
-              if (!selectedFiles.length) {
+              const checkedFiles = getCheckedFiles();
+              if (!checkedFiles.length) {
                 throw new Error('No files selected');
               }
 
               // Create a map of fileId -> {name, mimeType}
               const fileMap = {};
-              selectedFiles.forEach(file => {
+              checkedFiles.forEach(file => {
                 fileMap[file.id] = {
                   name: file.name,
                   mimeType: file.mimeType
                 };
               });
 
-              const bodyData = {
-                selectedFiles: fileMap,
-                refreshToken: refreshToken
-              };
+              // In token broker mode the handle stands in for the refresh token
+              const bodyData = tokenBroker
+                ? { connector, selectedFiles: fileMap, tokenHandle: tokenBroker.handle }
+                : { connector, selectedFiles: fileMap, refreshToken: refreshToken };
 
-              window.opener.__oauthHandler.onSuccess(bodyData);
+              sendFlowMessage('success', bodyData);
               window.close();
             } catch (error) {
               handleError({
@@ -193,6 +384,24 @@ export abstract class BasePicker {
           if (selectedFiles.length > 0) {
             updateFileList();
           }
+
+          // A picker embedded in the page starts with focus on its first control. In the
+          // modal overlay, Escape cancels the selection: keys pressed in this frame never
+          // reach the page that owns the overlay.
+          if (!window.opener && window.parent !== window) {
+            document.getElementById('selectMoreButton')?.focus();
+
+            if (window.frameElement?.closest('[aria-modal="true"]')) {
+              document.addEventListener('keydown', (e) => {
+                if (e.key === 'Escape' && !e.defaultPrevented) {
+                  e.preventDefault();
+                  sendFlowMessage('cancel');
+                }
+              });
+            }
+          }
+
+          sendFlowMessage('progress', { stage: 'picker-ready' });
         `
       }
     };
@@ -206,6 +415,9 @@ export abstract class BasePicker {
    * @param head Additional head content (scripts, meta tags)
    * @param body Body content
    * @param scripts JavaScript to include at the end of body
+   * @param nonce Optional nonce for Content Security Policy
+   * @param theme Optional theme applied to the page
+   * @param translator Strings of the page's locale, also available to scripts as translate(key, params)
    * @returns Complete HTML string
    */
   protected generateHTMLTemplate(
@@ -214,18 +426,20 @@ export abstract class BasePicker {
     head: string = '',
     body: string,
     scripts: string,
-    nonce?: string
+    nonce?: string,
+    theme?: ConnectTheme,
+    translator: Translator = createTranslator()
   ): string {
     return `
       <!DOCTYPE html>
-      <html>
+      <html lang="${translator.locale}" dir="${translator.dir}">
       <head>
-        <title>${title}</title>
+        <title>${createPageTitle(title, theme)}</title>
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1">
-        <style>
+        <style>${createThemeStyles(theme, `
           * { box-sizing: border-box; margin: 0; padding: 0; }
-          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; }
+          body { font-family: var(--vc-font-family); background-color: var(--vc-color-background); color: var(--vc-color-text); }
           .p-2 { padding: 0.5rem; }
           .p-4 { padding: 1rem; }
           .p-6 { padding: 1.5rem; }
@@ -235,7 +449,7 @@ export abstract class BasePicker {
           .py-3 { padding-top: 0.75rem; padding-bottom: 0.75rem; }
           .my-4 { margin-top: 1rem; margin-bottom: 1rem; }
           .mt-6 { margin-top: 1.5rem; }
-          .ml-3 { margin-left: 0.75rem; }
+          .ms-3 { margin-inline-start: 0.75rem; }
           .space-y-4 > * + * { margin-top: 1rem; }
           .space-y-6 > * + * { margin-top: 1.5rem; }
           .flex { display: flex; }
@@ -243,39 +457,47 @@ export abstract class BasePicker {
           .justify-between { justify-content: space-between; }
           .justify-end { justify-content: flex-end; }
           .flex-shrink-0 { flex-shrink: 0; }
-          .border { border: 1px solid #e5e7eb; }
-          .border-l-4 { border-left: 4px solid; }
+          .border { border: 1px solid var(--vc-color-border); }
+          .border-s-4 { border-inline-start: 4px solid; }
           .border-yellow-400 { border-color: #fbbf24; }
-          .rounded-lg { border-radius: 0.5rem; }
+          .rounded-lg { border-radius: var(--vc-radius); }
           .rounded-full { border-radius: 9999px; }
-          .bg-blue-500 { background-color: #3b82f6; }
-          .bg-green-500 { background-color: #10b981; }
+          .bg-primary { background-color: var(--vc-color-primary); }
+          .bg-accent { background-color: var(--vc-color-accent); }
+          .bg-surface { background-color: var(--vc-color-surface); }
           .bg-yellow-50 { background-color: #fffbeb; }
           .bg-gray-50 { background-color: #f9fafb; }
           .bg-red-50 { background-color: #fef2f2; }
           .text-white { color: #ffffff; }
           .text-2xl { font-size: 1.5rem; line-height: 2rem; }
           .text-sm { font-size: 0.875rem; line-height: 1.25rem; }
-          .text-gray-500 { color: #6b7280; }
-          .text-gray-800 { color: #1f2937; }
+          .text-muted { color: var(--vc-color-muted-text); }
+          .text-body { color: var(--vc-color-text); }
           .text-yellow-700 { color: #a16207; }
           .text-yellow-400 { color: #fbbf24; }
-          .text-red-500 { color: #ef4444; }
+          .text-error { color: var(--vc-color-error); }
           .font-bold { font-weight: 700; }
           .font-medium { font-weight: 500; }
-          .hover\\:bg-blue-600:hover { background-color: #2563eb; }
-          .hover\\:bg-green-600:hover { background-color: #059669; }
-          .hover\\:bg-gray-50:hover { background-color: #f9fafb; }
+          .hover\\:bg-primary-hover:hover { background-color: var(--vc-color-primary-hover); }
+          .hover\\:bg-accent-hover:hover { background-color: var(--vc-color-accent-hover); }
+          .hover\\:bg-surface-hover:hover { background-color: var(--vc-color-surface-hover); }
           .hover\\:bg-red-50:hover { background-color: #fef2f2; }
-          .hover\\:text-red-500:hover { color: #ef4444; }
+          .hover\\:text-error:hover { color: var(--vc-color-error); }
           .transition-colors { transition-property: color, background-color, border-color; transition-duration: 150ms; }
-          .group:hover .group-hover\\:bg-gray-50 { background-color: #f9fafb; }
+          .group:hover .group-hover\\:bg-surface-hover { background-color: var(--vc-color-surface-hover); }
           button { cursor: pointer; border: none; outline: none; }
-          button:focus { outline: 2px solid #3b82f6; outline-offset: 2px; }
+          button:focus { outline: 2px solid var(--vc-color-primary); outline-offset: 2px; }
+          [role="option"]:focus-visible, a:focus-visible { outline: 2px solid var(--vc-color-primary); outline-offset: 2px; }
+          .file-option { cursor: pointer; gap: 0.75rem; }
+          .file-option[aria-selected="false"] .text-body { color: var(--vc-color-muted-text); text-decoration: line-through; }
+          .file-check { display: inline-flex; align-items: center; justify-content: center; width: 1.25rem; height: 1.25rem; border: 2px solid var(--vc-color-primary); border-radius: 0.25rem; color: var(--vc-color-primary); font-weight: 700; }
+          .flex-1 { flex: 1 1 0%; }
+          button:disabled { opacity: 0.5; cursor: not-allowed; }
+          .sr-only { position: absolute; width: 1px; height: 1px; padding: 0; margin: -1px; overflow: hidden; clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0; }
           .h-5 { height: 1.25rem; }
           .w-5 { width: 1.25rem; }
           ${styles}
-        </style>
+        `)}</style>
         ${head}
       </head>
       <body>
@@ -284,7 +506,9 @@ export abstract class BasePicker {
             ${body}
           </div>
         </div>
-        <script${nonce ? ` nonce="${nonce}"` : ''}>
+        <script${nonceAttribute(nonce)}>
+          ${createEscapeScript()}
+          ${createTranslationScript(translator)}
           ${scripts}
         </script>
       </body>
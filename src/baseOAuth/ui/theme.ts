@@ -0,0 +1,111 @@
+import { ConnectTheme, ThemeColors } from '../types';
+import { escapeCss, escapeHtml, html, safeUrl, SafeHtml } from '../utils/html';
+
+/**
+ * Light palette of the file pickers, callback and error pages
+ */
+export const LIGHT_THEME_COLORS: Required<ThemeColors> = {
+  primary: '#3b82f6',
+  primaryHover: '#2563eb',
+  accent: '#10b981',
+  accentHover: '#059669',
+  background: '#ffffff',
+  surface: '#ffffff',
+  surfaceHover: '#f9fafb',
+  text: '#111827',
+  mutedText: '#6b7280',
+  border: '#e5e7eb',
+  error: '#ef4444'
+};
+
+/**
+ * Dark palette of the Notion picker
+ */
+export const DARK_THEME_COLORS: Required<ThemeColors> = {
+  primary: '#4338ca',
+  primaryHover: '#4f46e5',
+  accent: '#4338ca',
+  accentHover: '#4f46e5',
+  background: '#1f2937',
+  surface: '#374151',
+  surfaceHover: '#4b5563',
+  text: '#f3f4f6',
+  mutedText: 'rgba(243, 244, 246, 0.6)',
+  border: '#374151',
+  error: '#f87171'
+};
+
+/**
+ * Font stack used when the theme doesn't set one
+ */
+export const DEFAULT_FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+/**
+ * Corner radius used when the theme doesn't set one
+ */
+export const DEFAULT_BORDER_RADIUS = '0.5rem';
+
+/**
+ * Converts a camelCase color name into its CSS variable name
+ */
+function colorVariable(name: string): string {
+  return `--vc-color-${name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * Creates the stylesheet of a page from a theme
+ * The theme's values are declared as CSS variables ahead of the page's own styles,
+ * which should only refer to colors, font and radius through those variables.
+ * The theme's custom CSS comes last, so it overrides the built-in rules.
+ *
+ * @param theme Optional theme from the OAuth configuration
+ * @param styles The page's own styles
+ * @param defaults Palette used for the colors the theme doesn't set
+ * @returns CSS for a style element
+ */
+export function createThemeStyles(
+  theme: ConnectTheme | undefined,
+  styles: string,
+  defaults: Required<ThemeColors> = LIGHT_THEME_COLORS
+): string {
+  const variables = (Object.keys(defaults) as (keyof ThemeColors)[])
+    .map(name => `${colorVariable(name)}: ${escapeCss(theme?.colors?.[name] || defaults[name])};`);
+
+  variables.push(`--vc-font-family: ${escapeCss(theme?.fontFamily || DEFAULT_FONT_FAMILY)};`);
+  variables.push(`--vc-radius: ${escapeCss(theme?.borderRadius || DEFAULT_BORDER_RADIUS)};`);
+
+  return `
+    :root { ${variables.join(' ')} }
+    .vc-brand { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 1rem; font-weight: 600; color: var(--vc-color-text); }
+    .vc-brand img { height: 2rem; width: auto; }
+    ${styles}
+    ${theme?.customCss ? escapeCss(theme.customCss) : ''}
+  `;
+}
+
+/**
+ * Creates the branding header of a page
+ * @param theme Optional theme from the OAuth configuration
+ * @returns HTML with the logo and product name, or empty HTML if the theme sets neither
+ */
+export function createBrandingHTML(theme?: ConnectTheme): SafeHtml {
+  if (!theme?.logoUrl && !theme?.productName) {
+    return html``;
+  }
+
+  const logoUrl = safeUrl(theme.logoUrl);
+  const logo = logoUrl ? html`<img src="${logoUrl}" alt="${theme.productName ? '' : 'Logo'}">` : '';
+  const name = theme.productName ? html`<span>${theme.productName}</span>` : '';
+
+  return html`<div class="vc-brand">${logo}${name}</div>`;
+}
+
+/**
+ * Creates the window title of a page, prefixed with the theme's product name
+ * @param title The page title
+ * @param theme Optional theme from the OAuth configuration
+ * @returns The escaped title
+ */
+export function createPageTitle(title: string, theme?: ConnectTheme): string {
+  return escapeHtml(theme?.productName ? `${theme.productName} - ${title}` : title);
+}
@@ -0,0 +1,141 @@
+/**
+ * Characters replaced by escapeHtml, with their entities
+ */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '`': '&#96;'
+};
+
+/**
+ * Characters replaced by serializeForScript, so JSON can't end the script
+ * element or break the JavaScript it is embedded in
+ */
+const SCRIPT_ESCAPES: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029'
+};
+
+/**
+ * HTML that is safe to insert into a page as is
+ * Only html`` and unsafeHtml create it; every other value is escaped when interpolated.
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Escapes a value for HTML text and quoted attribute values
+ * @param value The untrusted value; null and undefined become an empty string
+ * @returns The escaped string
+ */
+export function escapeHtml(value: unknown): string {
+  return value === null || value === undefined
+    ? ''
+    : String(value).replace(/[&<>"'`]/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Serializes a value as a JavaScript expression for an inline script
+ * Unlike plain JSON.stringify, the output can't contain </script> or <!--.
+ * @param value The value to embed; undefined becomes null
+ * @returns JavaScript source evaluating to the value
+ */
+export function serializeForScript(value: unknown): string {
+  return (JSON.stringify(value) ?? 'null').replace(/[<>&\u2028\u2029]/g, char => SCRIPT_ESCAPES[char]);
+}
+
+/**
+ * Escapes a value for a style element, so it can't close the element
+ * @param value The CSS text
+ * @returns The CSS text with '<' replaced by its CSS escape
+ */
+export function escapeCss(value: string): string {
+  return value.replace(/</g, '\\3c ');
+}
+
+/**
+ * Keeps only http(s) URLs, so links and images can't run javascript: URLs
+ * @param url The untrusted URL
+ * @returns The URL, or an empty string if it has another scheme or is invalid
+ */
+export function safeUrl(url: unknown): string {
+  try {
+    const parsed = new URL(String(url));
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed.href : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Marks trusted markup, such as the output of another generator, as safe
+ * @param value Markup that must not contain untrusted values
+ * @returns The markup as SafeHtml
+ */
+export function unsafeHtml(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+/**
+ * Tag for HTML templates that escapes every interpolated value
+ * SafeHtml values are inserted as is and arrays are joined, so templates can be nested.
+ *
+ * @example
+ * const item = html`<li title="${file.name}">${file.name}</li>`;
+ * const list = html`<ul>${files.map(file => html`<li>${file.name}</li>`)}</ul>`;
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  const interpolate = (value: unknown): string => value instanceof SafeHtml
+    ? value.value
+    : Array.isArray(value) ? value.map(interpolate).join('') : escapeHtml(value);
+
+  return new SafeHtml(strings.reduce((result, string, index) =>
+    result + interpolate(values[index - 1]) + string
+  ));
+}
+
+/**
+ * Creates the nonce attribute of a script element
+ * @param nonce Optional nonce for Content Security Policy
+ * @returns The attribute with a leading space, or an empty string without a nonce
+ */
+export function nonceAttribute(nonce?: string): string {
+  return nonce ? ` nonce="${escapeHtml(nonce)}"` : '';
+}
+
+/**
+ * Creates a script defining escapeHtml(value) and safeUrl(url) for the page,
+ * for markup that page scripts build from data they load
+ * @returns JavaScript source to embed in a page
+ */
+export function createEscapeScript(): string {
+  return `
+    const htmlEscapes = ${serializeForScript(HTML_ESCAPES)};
+
+    function escapeHtml(value) {
+      return value === null || value === undefined
+        ? ''
+        : String(value).replace(/[&<>"'\`]/g, char => htmlEscapes[char]);
+    }
+
+    function safeUrl(url) {
+      try {
+        const parsed = new URL(String(url));
+        return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed.href : '';
+      } catch (e) {
+        return '';
+      }
+    }
+  `;
+}
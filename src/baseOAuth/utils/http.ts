@@ -0,0 +1,257 @@
+import { HttpRequest, OAuthError, RequestOptions, TimeoutError, TransportOptions } from '../types';
+
+/**
+ * Retry policy for outbound requests
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;      // Total attempts including the first one (defaults to 3)
+  baseDelayMs?: number;      // Delay before the first retry, doubled for every further retry (defaults to 500)
+  maxDelayMs?: number;       // Upper bound for a single delay, including Retry-After (defaults to 30 seconds)
+  retryOnStatus?: number[];  // Response statuses that are retried (defaults to 408, 429, 500, 502, 503, 504)
+  jitter?: boolean;          // Randomize delays to spread out retries of concurrent callers (defaults to true)
+}
+
+/**
+ * Options for a single outbound request
+ */
+export interface HttpRequestOptions extends RequestOptions, TransportOptions {
+  retry?: RetryPolicy | false;  // Retry policy for this request; false disables retries
+  idempotent?: boolean;         // Whether the request may be repeated safely, overriding the method default
+}
+
+/**
+ * Retry policy used when a request doesn't specify one
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  jitter: true
+};
+
+/**
+ * Methods that can be repeated without changing the result
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Statuses whose responses can't have a body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+let defaultRetryPolicy: RetryPolicy | false = DEFAULT_RETRY_POLICY;
+
+let defaultTransport: TransportOptions = {};
+
+/**
+ * Sets the retry policy of all requests that don't specify their own
+ * @param policy The retry policy, or false to disable retries by default
+ */
+export function setDefaultRetryPolicy(policy: RetryPolicy | false): void {
+  defaultRetryPolicy = policy === false ? false : { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Sets the transport of all outbound requests
+ * Its fetch is used unless a request brings its own, and its interceptors run before the request's.
+ * @param transport Custom fetch implementation and interceptors
+ */
+export function setDefaultTransport(transport: TransportOptions): void {
+  defaultTransport = { ...transport };
+}
+
+/**
+ * Parses a Retry-After header
+ * @param value The header value, in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the delay before a retry
+ * @param policy The retry policy
+ * @param retry Number of the retry, starting at 1
+ * @returns The delay in milliseconds
+ */
+function getBackoffDelay(policy: Required<RetryPolicy>, retry: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Whether a request can be repeated safely
+ * Requests carrying an Idempotency-Key header are treated as idempotent.
+ * @param init The request init
+ * @param idempotent Explicit idempotency of the request
+ */
+function isIdempotent(init: RequestInit, idempotent?: boolean): boolean {
+  if (idempotent !== undefined) {
+    return idempotent;
+  }
+
+  if (new Headers(init.headers).has('Idempotency-Key')) {
+    return true;
+  }
+
+  return IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase());
+}
+
+/**
+ * Waits before the next attempt, stopping early when the request is cancelled
+ */
+function sleep(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, delayMs);
+    signal.addEventListener('abort', done);
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Reads a response's body into memory and returns a copy that holds it
+ */
+async function bufferResponse(response: Response): Promise<Response> {
+  const body = NULL_BODY_STATUSES.includes(response.status) ? null : await response.arrayBuffer();
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+/**
+ * Sends an outbound request, retrying transient failures
+ *
+ * Retryable statuses and network errors are retried with exponential backoff,
+ * honoring Retry-After. Requests that are not idempotent (POST and PATCH by
+ * default) are only retried on 429, where the server did not process them.
+ * The timeout covers all attempts and the delays between them, and the body
+ * of the final response is read before the Promise resolves, so a server that
+ * sends its headers and then stalls is cut off too.
+ * Every attempt passes through the interceptors of the default and the request's transport.
+ * @param url The request URL
+ * @param init The request init
+ * @param options Retry policy, idempotency, cancellation, timeout and transport
+ * @returns A Promise that resolves with the final response, successful or not
+ * @throws TimeoutError if the timeout elapses, or an ABORTED OAuthError if the signal is aborted
+ */
+export async function sendRequest(
+  url: string,
+  init: RequestInit = {},
+  options: HttpRequestOptions = {}
+): Promise<Response> {
+  const { signal, timeoutMs } = options;
+  const fetchImpl = options.fetch || defaultTransport.fetch || fetch;
+  const interceptors = [...(defaultTransport.interceptors || []), ...(options.interceptors || [])];
+  const retry = options.retry === undefined ? defaultRetryPolicy : options.retry;
+  const policy: Required<RetryPolicy> = retry === false
+    ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+    : { ...DEFAULT_RETRY_POLICY, ...retry };
+  const idempotent = isIdempotent(init, options.idempotent);
+
+  // One controller cancels the pending attempt on abort and on timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = timeoutMs
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  // Runs the interceptors in order, with fetch at the end of the chain
+  const dispatch = (index: number, request: HttpRequest): Promise<Response> => index < interceptors.length
+    ? interceptors[index](request, next => dispatch(index + 1, next))
+    : fetchImpl(request.url, request.init);
+
+  const cancelled = (cause?: unknown): OAuthError => timedOut
+    ? new TimeoutError(`Request to ${url} timed out after ${timeoutMs}ms`, timeoutMs!, cause)
+    : new OAuthError(`Request to ${url} was aborted`, 'ABORTED', cause);
+
+  // Reads the final response's body, giving up once the request is cancelled
+  // even if the fetch implementation doesn't tie the body to the signal
+  const readBody = (response: Response): Promise<Response> => new Promise((resolve, reject) => {
+    const onCancel = () => {
+      response.body?.cancel().catch(() => undefined);
+      reject(cancelled());
+    };
+    if (controller.signal.aborted) {
+      onCancel();
+      return;
+    }
+
+    controller.signal.addEventListener('abort', onCancel);
+    bufferResponse(response)
+      .then(resolve, error => reject(controller.signal.aborted ? cancelled(error) : error))
+      .finally(() => controller.signal.removeEventListener('abort', onCancel));
+  });
+
+  try {
+    if (signal?.aborted) {
+      throw cancelled();
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < policy.maxAttempts;
+
+      let response: Response;
+      try {
+        response = await dispatch(0, { url, init: { ...init, signal: controller.signal } });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw cancelled(error);
+        }
+        // The request may have reached the server, so only repeat it when that is safe
+        if (!canRetry || !idempotent) {
+          throw error;
+        }
+        await sleep(getBackoffDelay(policy, attempt), controller.signal);
+        if (controller.signal.aborted) {
+          throw cancelled();
+        }
+        continue;
+      }
+
+      const retryable = policy.retryOnStatus.includes(response.status)
+        && (idempotent || response.status === 429);
+      if (!canRetry || !retryable) {
+        return await readBody(response);
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+        return await readBody(response); // The server asks for a longer pause than we are willing to wait
+      }
+
+      // Free the connection of the discarded response
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(retryAfter ?? getBackoffDelay(policy, attempt), controller.signal);
+      if (controller.signal.aborted) {
+        throw cancelled();
+      }
+    }
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
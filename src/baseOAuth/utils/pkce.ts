@@ -0,0 +1,60 @@
+import { base64UrlEncode, generateRandomString, getFlowCookieName, getFlowId, readCookie } from './state';
+
+/**
+ * Name of the cookie that carries the PKCE code verifier to the callback route
+ */
+export const OAUTH_VERIFIER_COOKIE = 'vectorize_oauth_verifier';
+
+/**
+ * How long an issued code verifier stays valid, in seconds
+ */
+const VERIFIER_TTL_SECONDS = 10 * 60;
+
+/**
+ * Generates a PKCE code verifier (RFC 7636, 43 characters of base64url)
+ * @returns The code verifier
+ */
+export function generateCodeVerifier(): string {
+  return generateRandomString(32);
+}
+
+/**
+ * Derives the S256 code challenge for a code verifier
+ * @param codeVerifier The code verifier
+ * @returns A Promise that resolves with the base64url encoded SHA-256 of the verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Stores the code verifier in a cookie so the callback route can send it with the code exchange
+ * Must be called in the browser before navigating to the provider
+ * @param codeVerifier The code verifier of the flow
+ * @param flowId Optional id of the flow
+ */
+export function persistCodeVerifier(codeVerifier: string, flowId?: string): void {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  const name = getFlowCookieName(OAUTH_VERIFIER_COOKIE, flowId);
+  document.cookie = `${name}=${encodeURIComponent(codeVerifier)}; Max-Age=${VERIFIER_TTL_SECONDS}; Path=/; SameSite=Lax${secure}`;
+}
+
+/**
+ * Reads the code verifier of the current flow from a callback request
+ * @param request The incoming callback request
+ * @returns The code verifier, or undefined if the flow did not use PKCE
+ */
+export function readCodeVerifier(request: Request): string | undefined {
+  const flowId = getFlowId(new URL(request.url).searchParams.get('state'));
+  return readCookie(request.headers.get('cookie'), getFlowCookieName(OAUTH_VERIFIER_COOKIE, flowId));
+}
+
+/**
+ * Builds a Set-Cookie header value that removes the code verifier cookie
+ * @param flowId Optional id of the flow whose cookie to remove
+ * @returns The Set-Cookie header value
+ */
+export function clearCodeVerifierCookie(flowId?: string): string {
+  return `${getFlowCookieName(OAUTH_VERIFIER_COOKIE, flowId)}=; Max-Age=0; Path=/; SameSite=Lax`;
+}
@@ -0,0 +1,59 @@
+import { ConfigurationError, FlowMessage, FLOW_MESSAGE_SOURCE } from '../types';
+
+/**
+ * sessionStorage key holding the context of a redirect flow in progress
+ */
+export const REDIRECT_FLOW_KEY = `${FLOW_MESSAGE_SOURCE}:redirect-flow`;
+
+/**
+ * sessionStorage key holding the result of a finished redirect flow
+ */
+export const REDIRECT_RESULT_KEY = `${FLOW_MESSAGE_SOURCE}:redirect-result`;
+
+/**
+ * Context of a redirect flow, kept in sessionStorage across the round trip
+ * The state and PKCE verifier travel in cookies so the callback route can read them.
+ */
+export interface RedirectFlowContext {
+  flowId: string;        // Prefix of the OAuth state, identifies the flow on the callback page
+  returnUrl: string;     // Page of the app to return to when the flow finishes
+  selectedFiles?: Record<string, { name: string; mimeType: string }>; // Files to preselect in the picker
+}
+
+/**
+ * Stores the context of a redirect flow before navigating to the provider
+ * @param context The flow context
+ * @throws ConfigurationError if the return URL is not on the current origin
+ */
+export function persistRedirectFlow(context: RedirectFlowContext): void {
+  const returnUrl = new URL(context.returnUrl, window.location.href);
+  if (returnUrl.origin !== window.location.origin) {
+    throw new ConfigurationError('The returnUrl of a redirect flow must be on the current origin');
+  }
+
+  window.sessionStorage.removeItem(REDIRECT_RESULT_KEY);
+  window.sessionStorage.setItem(REDIRECT_FLOW_KEY, JSON.stringify({
+    ...context,
+    returnUrl: returnUrl.toString()
+  }));
+}
+
+/**
+ * Reads and removes the result of a finished redirect flow
+ * @returns The final message of the flow, or null if no redirect flow has finished
+ */
+export function consumeRedirectResult(): FlowMessage | null {
+  const stored = window.sessionStorage.getItem(REDIRECT_RESULT_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  window.sessionStorage.removeItem(REDIRECT_RESULT_KEY);
+
+  try {
+    const message = JSON.parse(stored) as FlowMessage;
+    return message && message.source === FLOW_MESSAGE_SOURCE ? message : null;
+  } catch {
+    return null;
+  }
+}
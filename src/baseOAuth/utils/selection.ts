@@ -0,0 +1,34 @@
+import { SelectionDiff } from '../types';
+
+/**
+ * Compares two selections, e.g. the files a user had selected before and after
+ * reopening the picker
+ * Works with any map keyed by file or page ID, such as selectedFiles or selectedPages.
+ * @param previous The earlier selection; null or undefined for a first selection
+ * @param next The new selection
+ * @returns The entries added, removed and kept
+ */
+export function diffSelections<TItem>(
+  previous: Record<string, TItem> | null | undefined,
+  next: Record<string, TItem> | null | undefined
+): SelectionDiff<TItem> {
+  const before = previous || {};
+  const after = next || {};
+  const diff: SelectionDiff<TItem> = { added: {}, removed: {}, unchanged: {} };
+
+  for (const [id, item] of Object.entries(after)) {
+    if (Object.prototype.hasOwnProperty.call(before, id)) {
+      diff.unchanged[id] = item;
+    } else {
+      diff.added[id] = item;
+    }
+  }
+
+  for (const [id, item] of Object.entries(before)) {
+    if (!Object.prototype.hasOwnProperty.call(after, id)) {
+      diff.removed[id] = item;
+    }
+  }
+
+  return diff;
+}
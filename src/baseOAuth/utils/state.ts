@@ -0,0 +1,190 @@
+import { StateError } from '../types';
+
+/**
+ * Name of the cookie that carries the expected OAuth state to the callback route
+ */
+export const OAUTH_STATE_COOKIE = 'vectorize_oauth_state';
+
+/**
+ * How long an issued state stays valid, in seconds
+ */
+const STATE_TTL_SECONDS = 10 * 60;
+
+/**
+ * Maximum number of consumed states remembered for replay detection
+ */
+const MAX_CONSUMED_STATES = 1000;
+
+/**
+ * Shape of a state: base64url random data, optionally prefixed with a flow id and a dot
+ */
+const STATE_PATTERN = /^(?:[A-Za-z0-9_-]+\.)?[A-Za-z0-9_-]+$/;
+
+// States that already completed a callback in this process. Other server
+// instances don't see them, so across instances a replay is only stopped by
+// the state cookie the callback clears.
+const consumedStates = new Set<string>();
+
+/**
+ * Encodes bytes as an unpadded base64url string
+ * @param bytes The bytes to encode
+ * @returns The base64url encoded string
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Generates a cryptographically random value suitable for the OAuth state parameter
+ * @param byteLength Number of random bytes to use
+ * @returns A base64url encoded random string
+ */
+export function generateRandomString(byteLength: number = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Gets the id of the flow an OAuth state belongs to
+ * States of flows started from this library are prefixed with the flow id.
+ * @param state The OAuth state
+ * @returns The flow id, or undefined for states without one
+ */
+export function getFlowId(state: string | null | undefined): string | undefined {
+  const separator = state ? state.indexOf('.') : -1;
+  return state && separator > 0 ? state.slice(0, separator) : undefined;
+}
+
+/**
+ * Gets the name of a per-flow cookie, so concurrent flows don't overwrite each other
+ * @param baseName The base cookie name
+ * @param flowId Optional id of the flow
+ * @returns The cookie name
+ */
+export function getFlowCookieName(baseName: string, flowId?: string): string {
+  return flowId ? `${baseName}_${flowId}` : baseName;
+}
+
+/**
+ * Stores the expected state in a cookie so the callback route can verify it
+ * Must be called in the browser before navigating to the provider
+ * @param state The state value sent to the provider
+ */
+export function persistOAuthState(state: string): void {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  const name = getFlowCookieName(OAUTH_STATE_COOKIE, getFlowId(state));
+  document.cookie = `${name}=${encodeURIComponent(state)}; Max-Age=${STATE_TTL_SECONDS}; Path=/; SameSite=Lax${secure}`;
+}
+
+/**
+ * Reads a cookie value from a Cookie header
+ * @param cookieHeader The raw Cookie header value
+ * @param name Name of the cookie to read
+ * @returns The decoded cookie value, or undefined if it is not present
+ */
+export function readCookie(cookieHeader: string | null, name: string): string | undefined {
+  if (!cookieHeader) {
+    return undefined;
+  }
+
+  for (const part of cookieHeader.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compares two strings in constant time relative to their content
+ * @param a First string
+ * @param b Second string
+ * @returns True if both strings are equal
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return mismatch === 0;
+}
+
+/**
+ * Verifies the state of an OAuth callback request against the state cookie
+ * A state can only be verified once per process; later callbacks with the same state
+ * that reach this process are rejected. Only the last 1000 states are remembered and
+ * other server instances don't share them, so across instances a replay is stopped by
+ * the callback response clearing the state cookie, not by this check.
+ * @param request The incoming callback request
+ * @returns The verified state value
+ * @throws StateError if the state is missing, malformed, replayed or does not match
+ */
+export function verifyOAuthState(request: Request): string {
+  const state = new URL(request.url).searchParams.get('state');
+  if (!state) {
+    throw new StateError('Missing state parameter in OAuth callback', { reason: 'missing' });
+  }
+
+  if (!STATE_PATTERN.test(state)) {
+    throw new StateError('OAuth state is malformed', { reason: 'malformed' });
+  }
+
+  if (consumedStates.has(state)) {
+    throw new StateError('OAuth state has already been used', { reason: 'replayed' });
+  }
+
+  const expectedState = readCookie(
+    request.headers.get('cookie'),
+    getFlowCookieName(OAUTH_STATE_COOKIE, getFlowId(state))
+  );
+  if (!expectedState) {
+    throw new StateError('No OAuth flow in progress for this browser', { reason: 'missing' });
+  }
+
+  if (!safeEqual(state, expectedState)) {
+    throw new StateError('OAuth state does not match the flow started in this browser', { reason: 'mismatch' });
+  }
+
+  consumedStates.add(state);
+  if (consumedStates.size > MAX_CONSUMED_STATES) {
+    const oldest = consumedStates.values().next().value;
+    if (oldest !== undefined) {
+      consumedStates.delete(oldest);
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Builds a Set-Cookie header value that removes the state cookie
+ * @param flowId Optional id of the flow whose cookie to remove
+ * @returns The Set-Cookie header value
+ */
+export function clearOAuthStateCookie(flowId?: string): string {
+  return `${getFlowCookieName(OAUTH_STATE_COOKIE, flowId)}=; Max-Age=0; Path=/; SameSite=Lax`;
+}
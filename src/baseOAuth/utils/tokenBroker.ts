@@ -0,0 +1,161 @@
+import { ConfigurationError, RequestOptions, TokenError } from '../types';
+import { base64UrlEncode } from './state';
+import { sendRequest } from './http';
+
+/**
+ * Contents of a sealed token handle
+ */
+export interface TokenHandlePayload {
+  connector: string;  // Connector the token belongs to (e.g. "google-drive")
+  token: string;      // Refresh token, or access token for connectors without refresh
+  iat?: number;       // When the handle was sealed, in seconds since the epoch
+  exp?: number;       // When the handle expires, in seconds since the epoch
+}
+
+/**
+ * Default lifetime of a token handle, in seconds
+ */
+export const DEFAULT_TOKEN_HANDLE_TTL_SECONDS = 15 * 60;
+
+/**
+ * Length of the AES-GCM initialization vector, in bytes
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Decodes an unpadded base64url string
+ * @param value The base64url encoded string
+ * @returns The decoded bytes
+ */
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derives the AES-GCM key used to seal token handles from the broker secret
+ * @param secret The server-side token broker secret
+ * @returns A Promise that resolves with the encryption key
+ */
+async function deriveKey(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new ConfigurationError('A token broker secret is required to seal or open token handles');
+  }
+
+  const keyMaterial = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', keyMaterial, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Seals a token into an opaque handle that can be given to the browser
+ * Only a server holding the broker secret can open the handle again, and only
+ * until it expires, so a leaked handle can't mint access tokens forever.
+ * @param payload The connector and token to seal
+ * @param secret The server-side token broker secret
+ * @param ttlSeconds Lifetime of the handle, in seconds
+ * @returns A Promise that resolves with the token handle
+ */
+export async function sealTokenHandle(
+  payload: Pick<TokenHandlePayload, 'connector' | 'token'>,
+  secret: string,
+  ttlSeconds: number = DEFAULT_TOKEN_HANDLE_TTL_SECONDS
+): Promise<string> {
+  const key = await deriveKey(secret);
+  const iat = Math.floor(Date.now() / 1000);
+  const iv = new Uint8Array(IV_LENGTH);
+  crypto.getRandomValues(iv);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify({ connector: payload.connector, token: payload.token, iat, exp: iat + ttlSeconds }))
+  );
+
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH);
+
+  return base64UrlEncode(sealed);
+}
+
+/**
+ * Opens a token handle created by sealTokenHandle
+ * Use this on the server to get the refresh token for manageGDriveUser or manageDropboxUser.
+ * @param handle The token handle
+ * @param secret The server-side token broker secret
+ * @param connector Optional connector the handle is expected to belong to
+ * @returns A Promise that resolves with the sealed payload
+ * @throws TokenError if the handle is invalid, has expired or belongs to another connector
+ */
+export async function unsealTokenHandle(
+  handle: string,
+  secret: string,
+  connector?: string
+): Promise<TokenHandlePayload> {
+  const key = await deriveKey(secret);
+
+  let payload: TokenHandlePayload;
+  try {
+    const sealed = base64UrlDecode(handle);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(0, IV_LENGTH) },
+      key,
+      sealed.slice(IV_LENGTH)
+    );
+    payload = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch (error) {
+    throw new TokenError('Invalid token handle', error);
+  }
+
+  // Handles without an expiry never expire, so they are rejected too
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+    throw new TokenError('Token handle has expired', { reason: 'expired' });
+  }
+
+  if (connector && payload.connector !== connector) {
+    throw new TokenError(`Token handle does not belong to the ${connector} connector`);
+  }
+
+  return payload;
+}
+
+/**
+ * Requests a fresh access token from a token broker endpoint
+ * @param endpoint URL of the token broker route
+ * @param handle The token handle to exchange
+ * @param options Optional abort signal and timeout
+ * @returns A Promise that resolves with the short-lived access token
+ */
+export async function requestBrokerAccessToken(
+  endpoint: string,
+  handle: string,
+  options: RequestOptions = {}
+): Promise<{
+  access_token: string;
+  expires_in: number;
+  token_type: string;
+}> {
+  const response = await sendRequest(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'same-origin',
+    body: JSON.stringify({ action: 'token', handle })
+  }, { ...options, idempotent: true });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new TokenError(
+      `Token broker request failed: ${errorData.error || response.statusText}`,
+      errorData
+    );
+  }
+
+  return response.json();
+}
@@ -1,4 +1,8 @@
 import { OAuthConfig, OAuthError } from '../types';
+import { createChannelScript } from '../core/channel';
+import { createBrandingHTML, createPageTitle, createThemeStyles } from '../ui/theme';
+import { createTranslator } from '../ui/i18n';
+import { escapeHtml, nonceAttribute, serializeForScript } from './html';
 
 /**
  * Validates the basic OAuth configuration
@@ -25,49 +29,65 @@ export function validateConfig(config: OAuthConfig): void {
 }
 
 /**
- * Creates an error response for OAuth callbacks
- * @param error The error to include in the response
+ * Creates the error page of OAuth callbacks
+ * The page reports the error to the opener and closes itself. Every callback
+ * error page is built here, so all of them follow the theme and the locale.
+ * @param error The error to include in the page
  * @param nonce Optional nonce for Content Security Policy
- * @returns A Response object with the error
+ * @param config Optional OAuth configuration whose theme, locale and messages apply to the page
+ * @returns The HTML of the error page
  */
-export function createErrorResponse(error: OAuthError, nonce?: string): Response {
-  const htmlContent = `
+export function createErrorPageHTML(
+  error: OAuthError,
+  nonce?: string,
+  config?: Pick<OAuthConfig, 'theme' | 'locale' | 'messages'>
+): string {
+  const theme = config?.theme;
+  const { locale, dir, t } = createTranslator(config?.locale, config?.messages);
+  return `
     <!DOCTYPE html>
-    <html>
+    <html lang="${locale}" dir="${dir}">
     <head>
-      <title>Authentication Error</title>
-      <style>
-        body { font-family: Arial, sans-serif; text-align: center; margin-top: 50px; }
-        .error { color: #f44336; }
-      </style>
-      <script${nonce ? ` nonce="${nonce}"` : ''}>
-        window.onload = function() {
-          if (window.opener && window.opener.__oauthHandler) {
-            const errorObj = ${JSON.stringify({
-              message: error.message,
-              code: error.code,
-              details: error.details
-            })};
+      <title>${createPageTitle(t('errorTitle'), theme)}</title>
+      <style>${createThemeStyles(theme, `
+        body { font-family: var(--vc-font-family); background-color: var(--vc-color-background); color: var(--vc-color-text); text-align: center; margin-top: 50px; }
+        .vc-brand { justify-content: center; }
+        .error { color: var(--vc-color-error); }
+      `)}</style>
+      <script${nonceAttribute(nonce)}>
+        ${createChannelScript()}
 
-            window.opener.__oauthHandler.onError(
-              new window.opener.__oauthHandler.OAuthError(
-                errorObj.message,
-                errorObj.code,
-                errorObj.details
-              )
-            );
-            window.close();
-          }
+        window.onload = function() {
+          sendFlowMessage('error', ${serializeForScript({
+            message: error.message,
+            code: error.code,
+            details: error.details
+          })});
+          window.close();
         };
       </script>
     </head>
     <body>
-      <h2 class="error">Authentication Error</h2>
-      <p>${error.message}</p>
-      <p>This window will close automatically.</p>
+      ${createBrandingHTML(theme)}
+      <h2 class="error">${escapeHtml(t('errorTitle'))}</h2>
+      <p>${escapeHtml(error.message)}</p>
+      <p>${escapeHtml(t('errorWindowCloses'))}</p>
     </body>
     </html>
   `;
+}
 
-  return new Response(htmlContent, { headers: { 'Content-Type': 'text/html' } });
+/**
+ * Creates an error response for OAuth callbacks
+ * @param error The error to include in the response
+ * @param nonce Optional nonce for Content Security Policy
+ * @param config Optional OAuth configuration whose theme, locale and messages apply to the page
+ * @returns A Response object with the error
+ */
+export function createErrorResponse(
+  error: OAuthError,
+  nonce?: string,
+  config?: Pick<OAuthConfig, 'theme' | 'locale' | 'messages'>
+): Response {
+  return new Response(createErrorPageHTML(error, nonce, config), { headers: { 'Content-Type': 'text/html' } });
 }
\ No newline at end of file
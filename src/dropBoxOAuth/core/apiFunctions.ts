@@ -3,14 +3,20 @@
 import { 
     VectorizeAPIConfig, 
     ConnectorConfig,
-    UserAction 
+    UserAction,
+    TokenError,
+    RequestOptions,
+    SourceConnector
   } from "../../baseOAuth/types";
   import { 
     createSourceConnector, 
+    updateSourceConnector,
     manageUser, 
+    disconnectUser,
     getOneTimeConnectorToken as baseGetOneTimeConnectorToken 
   } from "../../baseOAuth/core/apiFunctions";
   import { DropboxConnectorType } from "../types";
+  import { refreshDropboxToken, revokeDropboxToken } from "../utils/token";
   
   /**
    * Create a Vectorize Dropbox OAuth Connector Source
@@ -18,6 +24,7 @@ import {
    * @param config - An object containing your organization ID and authorization token
    * @param connectorName - Name for the connector
    * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+   * @param options - Optional abort signal and timeout
    *
    * @returns A Promise that resolves with the connector ID
    */
@@ -25,13 +32,14 @@ import {
     config: VectorizeAPIConfig,
     connectorName: string,
     platformUrl: string = "https://api.vectorize.io/v1",
+    options?: RequestOptions,
   ): Promise<string> {
     const connector: ConnectorConfig = {
       name: connectorName,
       type: DropboxConnectorType.VECTORIZE
     };
   
-    return createSourceConnector(config, connector, platformUrl);
+    return createSourceConnector(config, connector, platformUrl, options);
   }
   
   /**
@@ -42,6 +50,7 @@ import {
    * @param appKey - Dropbox API app key for the white label connector
    * @param appSecret - Dropbox API app secret for the white label connector
    * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+   * @param options - Optional abort signal and timeout
    *
    * @returns A Promise that resolves with the connector ID
    */
@@ -51,6 +60,7 @@ import {
     appKey: string,
     appSecret: string,
     platformUrl: string = "https://api.vectorize.io/v1",
+    options?: RequestOptions,
   ): Promise<string> {
     if (!appKey || !appSecret) {
       throw new Error("App Key and App Secret are required for white label connectors");
@@ -65,7 +75,39 @@ import {
       }
     };
   
-    return createSourceConnector(config, connector, platformUrl);
+    return createSourceConnector(config, connector, platformUrl, options);
+  }
+
+  /**
+   * Rotates the OAuth credentials of a White Label Dropbox OAuth Connector Source.
+   *
+   * @param config - An object containing your organization ID and authorization token
+   * @param connectorId - ID of the connector
+   * @param appKey - New Dropbox API app key for the white label connector
+   * @param appSecret - New Dropbox API app secret for the white label connector
+   * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+   * @param options - Optional abort signal and timeout
+   *
+   * @returns A Promise that resolves with the updated connector
+   */
+  export async function updateWhiteLabelDropboxConnector(
+    config: VectorizeAPIConfig,
+    connectorId: string,
+    appKey: string,
+    appSecret: string,
+    platformUrl: string = "https://api.vectorize.io/v1",
+    options?: RequestOptions,
+  ): Promise<SourceConnector<DropboxConnectorType>> {
+    if (!appKey || !appSecret) {
+      throw new Error("App Key and App Secret are required for white label connectors");
+    }
+  
+    return updateSourceConnector<DropboxConnectorType>(config, connectorId, {
+      config: {
+        "app-key": appKey,
+        "app-secret": appSecret
+      }
+    }, platformUrl, options);
   }
   
   /**
@@ -78,6 +120,7 @@ import {
    * @param userId User ID to manage
    * @param action Action to perform ("add", "edit", or "remove")
    * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves with the API response
    */
   export async function manageDropboxUser(
@@ -88,6 +131,7 @@ import {
     userId: string,
     action: UserAction,
     platformUrl: string = "https://api.vectorize.io/v1",
+    options?: RequestOptions,
   ): Promise<Response> {
     // Validate required parameters for add/edit actions
     if (action === "add" || action === "edit") {
@@ -109,7 +153,46 @@ import {
       payload.refreshToken = refreshToken;
     }
   
-    return manageUser(config, connectorId, userId, action, payload, platformUrl);
+    return manageUser(config, connectorId, userId, action, payload, platformUrl, options);
+  }
+  
+  /**
+   * Disconnects a Dropbox user: revokes their Dropbox grant, then removes them from the connector.
+   * A refresh token Dropbox no longer accepts is treated as already revoked.
+   *
+   * @param config VectorizeAPIConfig containing authorization and organizationId
+   * @param connectorId ID of the connector
+   * @param userId User ID to disconnect
+   * @param refreshToken Dropbox OAuth refresh token of the user
+   * @param appKey The Dropbox app key
+   * @param appSecret The Dropbox app secret (omit for tokens obtained with PKCE)
+   * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+   * @param options Optional abort signal and timeout
+   * @returns Promise that resolves with the API response of the removal
+   */
+  export async function disconnectDropboxUser(
+    config: VectorizeAPIConfig,
+    connectorId: string,
+    userId: string,
+    refreshToken: string,
+    appKey: string,
+    appSecret?: string,
+    platformUrl: string = "https://api.vectorize.io/v1",
+    options?: RequestOptions,
+  ): Promise<Response> {
+    return disconnectUser(config, connectorId, userId, async () => {
+      let accessToken: string;
+      try {
+        ({ access_token: accessToken } = await refreshDropboxToken(refreshToken, appKey, appSecret, undefined, options));
+      } catch (error) {
+        if (error instanceof TokenError && error.details?.error === "invalid_grant") {
+          return; // The grant is already gone
+        }
+        throw error;
+      }
+
+      await revokeDropboxToken(accessToken, options);
+    }, platformUrl, options);
   }
   
   /**
@@ -1,9 +1,10 @@
 // dropboxOAuth/core/OAuth.ts
 
 import { BaseOAuth } from '../../baseOAuth/core/oauth';
-import { OAuthConfig, OAuthError, OAuthResponse } from '../../baseOAuth/types';
-import { DropboxOAuthConfig } from '../types';
-import { exchangeDropboxCodeForTokens } from '../utils/token';
+import { diffSelections } from '../../baseOAuth/utils/selection';
+import { AuthorizeOptions, OAuthConfig, OAuthError, OAuthResponse, RedirectOptions, RequestOptions } from '../../baseOAuth/types';
+import { DropboxOAuthConfig, DropboxSelectionResult } from '../types';
+import { exchangeDropboxCodeForTokens, refreshDropboxToken } from '../utils/token';
 import { DropboxPicker } from '../ui/picker';
 
 /**
@@ -22,11 +23,44 @@ export class DropboxOAuth extends BaseOAuth {
       throw new OAuthError('Missing appKey in configuration', 'CONFIGURATION_ERROR');
     }
     
-    if (!dropboxConfig.appSecret) {
+    // Public clients using PKCE never need the app secret
+    if (!dropboxConfig.appSecret && !dropboxConfig.pkce) {
       throw new OAuthError('Missing appSecret in configuration', 'CONFIGURATION_ERROR');
     }
   }
 
+  /**
+   * Builds the Dropbox authorization request
+   * @param config The OAuth configuration
+   * @returns The authorization endpoint, parameters and popup title
+   */
+  protected static override createAuthorizationRequest(config: DropboxOAuthConfig): {
+    endpoint: string;
+    params: URLSearchParams;
+    popupTitle: string;
+  } {
+    const {
+      appKey,
+      redirectUri,
+      scopes = ["files.metadata.read", "files.content.read"],
+    } = config;
+
+    // Build OAuth URL with parameters
+    const params = new URLSearchParams({
+      client_id: appKey,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      token_access_type: "offline",
+      scope: scopes.join(' ')
+    });
+
+    return {
+      endpoint: 'https://www.dropbox.com/oauth2/authorize',
+      params,
+      popupTitle: 'Dropbox OAuth Login'
+    };
+  }
+
   /**
    * Creates an OAuth popup window for Dropbox authentication
    * @param config The OAuth configuration
@@ -36,32 +70,16 @@ export class DropboxOAuth extends BaseOAuth {
     try {
       this.validateConfig(config);
 
-      const {
-        appKey,
-        redirectUri,
-        scopes = ["files.metadata.read", "files.content.read"],
-      } = config;
-
-      // Set up the OAuth handler in the window
-      this.setupOAuthHandler(config);
-
-      // Build OAuth URL with parameters
-      const params = new URLSearchParams({
-        client_id: appKey,
-        redirect_uri: redirectUri,
-        response_type: "code",
-        token_access_type: "offline",
-        scope: scopes.join(' ')
-      });
-
-      const authUrl = `https://www.dropbox.com/oauth2/authorize?${params.toString()}`;
+      // Open the message channel the callback page reports back on
+      const channelId = this.setupOAuthHandler(config);
 
       // Create the popup window
-      const popup = this.createOAuthPopup(authUrl, 'Dropbox OAuth Login');
+      const { endpoint, params, popupTitle } = this.createAuthorizationRequest(config);
+      const popup = this.openAuthorizationPopup(endpoint, params, config, popupTitle, channelId);
       
       // Monitor the popup
       if (popup) {
-        this.monitorPopup(popup);
+        this.monitorPopup(popup, config, channelId);
       }
 
       return popup;
@@ -81,36 +99,97 @@ export class DropboxOAuth extends BaseOAuth {
     }
   }
 
+  /**
+   * Runs the Dropbox OAuth flow and resolves with the user's selection
+   * Promise-based alternative to startOAuth; the config callbacks are optional.
+   * @param config The OAuth configuration
+   * @param options Optional abort signal and the user's previous selection; aborting closes the popup
+   * @returns A Promise that resolves with the selected files, the refresh token (or token handle) and the changes since previousSelection
+   * @throws OAuthError if the flow fails, is aborted or the user closes the popup
+   */
+  public static override async authorize(
+    config: DropboxOAuthConfig,
+    options?: AuthorizeOptions<{ name: string; mimeType: string }>
+  ): Promise<DropboxSelectionResult> {
+    const result = await this.runAuthorization(config, options);
+
+    return { ...result, changes: diffSelections(options?.previousSelection, result.selectedFiles) };
+  }
+
+  /**
+   * Starts the Dropbox OAuth flow by navigating the current tab to Dropbox
+   * @param config The OAuth configuration
+   * @param options Optional return URL and files to preselect in the picker
+   * @returns A Promise that resolves when navigation has started
+   * @throws OAuthError if the configuration is invalid
+   */
+  public static override startOAuthRedirect(
+    config: DropboxOAuthConfig,
+    options?: RedirectOptions
+  ): Promise<void> {
+    return super.startOAuthRedirect(config, options);
+  }
+
+  /**
+   * Reads the outcome of a Dropbox redirect flow after the tab returned to the app
+   * @returns A Promise that resolves with the user's selection, or null if no redirect flow has finished
+   * @throws OAuthError if the flow failed, or USER_CANCELLED if the user cancelled it
+   */
+  public static override getRedirectResult(): Promise<DropboxSelectionResult | null> {
+    return this.readRedirectResult<DropboxSelectionResult>();
+  }
+
   /**
    * Creates a response for the OAuth callback page
    * @param code Authorization code from the OAuth redirect
    * @param config The OAuth configuration
    * @param error Optional error from the OAuth process
+   * @param nonce Optional nonce for Content Security Policy
+   * @param request The callback request; its OAuth state is verified, and callbacks without it fail with INVALID_STATE
+   * @param options Optional abort signal and timeout of the token exchange
    * @returns A Response object with the callback page
    */
   public static override async createCallbackResponse(
     code: string,
     config: DropboxOAuthConfig,
     error?: string | OAuthError,
-    nonce?: string
+    nonce?: string,
+    request?: Request,
+    options?: RequestOptions
   ): Promise<Response> {
     if (error) {
       const errorObj = typeof error === 'string' ? new OAuthError(error, 'CALLBACK_ERROR') : error;
-      return this.createErrorResponse(errorObj, nonce);
+      return this.createErrorResponse(errorObj, nonce, request, config);
     }
 
     try {
+      this.verifyState(request);
+
+      const codeVerifier = this.getCodeVerifier(config, request);
+
       const tokens = await exchangeDropboxCodeForTokens(
         code,
         config.appKey,
         config.appSecret,
-        config.redirectUri
+        config.redirectUri,
+        codeVerifier,
+        options
       );
 
+      // In token broker mode the picker only gets a sealed handle instead of the long-lived token
+      const tokenBroker = await this.createPickerTokenBroker(config, 'dropbox', tokens.refresh_token);
+
       // Use the Dropbox picker template
-      const htmlContent = DropboxPicker.createPickerHTML(tokens, config, tokens.refresh_token, undefined, nonce);
+      const htmlContent = DropboxPicker.createPickerHTML(
+        this.getPickerTokens(tokens, tokenBroker),
+        config,
+        tokenBroker ? '' : tokens.refresh_token,
+        undefined,
+        nonce,
+        tokenBroker
+      );
 
-      return new Response(htmlContent, { headers: { 'Content-Type': 'text/html' } });
+      return this.createHTMLResponse(htmlContent, request);
     } catch (error) {
       return this.createErrorResponse(
         error instanceof OAuthError ? error : new OAuthError(
@@ -118,11 +197,41 @@ export class DropboxOAuth extends BaseOAuth {
           'CALLBACK_ERROR',
           error
         ),
-        nonce
+        nonce,
+        request,
+        config
       );
     }
   }
 
+  /**
+   * Creates a response for the token broker route used in token broker mode
+   * Exchanges a token handle for a short-lived access token, so the refresh token never leaves the server
+   * @param request The incoming broker request
+   * @param config The OAuth configuration including tokenBroker.secret
+   * @param options Optional abort signal and timeout of the provider requests
+   * @returns A JSON Response with the access token
+   */
+  public static async createTokenBrokerResponse(
+    request: Request,
+    config: DropboxOAuthConfig,
+    options?: RequestOptions
+  ): Promise<Response> {
+    return this.createBrokerResponse(request, config, 'dropbox', async (action, refreshToken) => {
+      if (action !== 'token') {
+        throw new OAuthError(`Unsupported token broker action: ${action}`, 'INVALID_REQUEST');
+      }
+
+      return refreshDropboxToken(
+        refreshToken,
+        config.appKey,
+        config.appSecret,
+        config.tokenBroker?.scopes,
+        options
+      );
+    });
+  }
+
   /**
    * Redirects the user to the Vectorize Dropbox connector authentication flow
    * with a one-time token for security
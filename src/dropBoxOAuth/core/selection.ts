@@ -1,9 +1,12 @@
-import { OAuthError, TokenError } from '../../baseOAuth/types';
+import { OAuthError, PickerTarget, SelectionOptions, TokenError } from '../../baseOAuth/types';
 import { BaseSelection } from '../../baseOAuth/core/selection';
+import { runPopupFlow } from '../../baseOAuth/core/flow';
+import { requestBrokerAccessToken } from '../../baseOAuth/utils/tokenBroker';
+import { diffSelections } from '../../baseOAuth/utils/selection';
 import { validateConfig } from '../../baseOAuth/utils/validation';
 import { refreshDropboxToken } from '../utils/token';
 import { DropboxPicker } from '../ui/picker';
-import { DropboxOAuthConfig } from '../types';
+import { DropboxOAuthConfig, DropboxSelectionResult } from '../types';
 
 /**
  * Dropbox implementation of file selection functionality
@@ -12,32 +15,36 @@ export class DropboxSelection extends BaseSelection {
   /**
    * Static method to start Dropbox file selection
    * This static method is what will be called from the React components
+   * When config.tokenBroker is set, refreshToken is the token handle returned by the broker flow
    */
   static async startFileSelection(
     config: DropboxOAuthConfig,
     refreshToken: string,
     selectedFiles?: Record<string, { name: string; mimeType: string; path?: string }>,
-    targetWindow?: Window
+    target?: PickerTarget
   ): Promise<Window | null> {
     try {
       // Validate the provided configuration
       validateConfig(config);
 
-      // Set up handler for OAuth callbacks
-      BaseSelection.setupOAuthHandler(config);
+      // Open the message channel the picker reports back on
+      const channelId = BaseSelection.setupOAuthHandler(config);
 
       try {
-        // Refresh the access token using the refresh token
-        const tokens = await refreshDropboxToken(
-          refreshToken, 
-          config.appKey, 
-          config.appSecret
-        );
+        // Refresh the access token, through the token broker when the refresh token stays on the server
+        const tokens = config.tokenBroker
+          ? await requestBrokerAccessToken(config.tokenBroker.endpoint, refreshToken)
+          : await refreshDropboxToken(
+              refreshToken, 
+              config.appKey, 
+              config.appSecret
+            );
         
-        // Use provided window or create a new popup
-        const popup = targetWindow || BaseSelection.createPopupWindow(
-          1200, 
-          800, 
+        // Use the provided window, a frame inside the page or a new popup
+        const popup = BaseSelection.openPickerWindow(
+          target,
+          config,
+          channelId,
           'Dropbox File Selection'
         );
         
@@ -52,24 +59,29 @@ export class DropboxSelection extends BaseSelection {
         const content = DropboxPicker.createPickerHTML(
           {
             access_token: tokens.access_token,
-            refresh_token: refreshToken,
+            refresh_token: config.tokenBroker ? '' : refreshToken,
             expires_in: tokens.expires_in,
             token_type: tokens.token_type
           },
           config,
-          refreshToken,
+          config.tokenBroker ? '' : refreshToken,
           selectedFiles,
-          config.nonce
+          config.nonce,
+          config.tokenBroker ? { endpoint: config.tokenBroker.endpoint, handle: refreshToken } : undefined,
+          channelId
         );
         
         // Write content to the popup
         BaseSelection.writeToPopup(popup, content);
 
-        // Monitor the popup and clean up when closed
-        BaseSelection.monitorPopup(popup);
+        // Monitor the popup and report cancellation when the user closes it
+        BaseSelection.monitorPopup(popup, config, channelId);
 
         return popup;
       } catch (error) {
+        // The picker never opened, so stop listening for it
+        BaseSelection.cleanupOAuthHandler(channelId);
+
         if (error instanceof OAuthError) {
           throw error;
         }
@@ -94,6 +106,33 @@ export class DropboxSelection extends BaseSelection {
     }
   }
 
+  /**
+   * Runs Dropbox file selection and resolves with the user's selection
+   * Promise-based alternative to startFileSelection; the config callbacks are optional.
+   * @param config The OAuth configuration
+   * @param refreshToken The user's refresh token, or the token handle in token broker mode
+   * @param selectedFiles Optional map of files to initialize as selected
+   * @param options Optional abort signal, and a target window or embed options; aborting closes the popup or embedded picker
+   * @returns A Promise that resolves with the selected files and their changes compared with selectedFiles
+   * @throws OAuthError if the selection fails, is aborted or the user closes the popup
+   */
+  static async selectFiles(
+    config: DropboxOAuthConfig,
+    refreshToken: string,
+    selectedFiles?: Record<string, { name: string; mimeType: string }>,
+    options: SelectionOptions = {}
+  ): Promise<DropboxSelectionResult> {
+    const result = await runPopupFlow<DropboxSelectionResult, DropboxOAuthConfig>(
+      config,
+      async flowConfig => BaseSelection.startedFlow(
+        await DropboxSelection.startFileSelection(flowConfig, refreshToken, selectedFiles, options.targetWindow || options.embed)
+      ),
+      options
+    );
+
+    return { ...result, changes: diffSelections(selectedFiles, result.selectedFiles) };
+  }
+
   /**
    * Instance method implementation (fulfills abstract class requirement)
    * Delegates to the static method for actual implementation
@@ -102,13 +141,13 @@ export class DropboxSelection extends BaseSelection {
     config: DropboxOAuthConfig,
     refreshToken: string,
     selectedFiles?: Record<string, { name: string; mimeType: string; path?: string }>,
-    targetWindow?: Window
+    target?: PickerTarget
   ): Promise<Window | null> {
     return DropboxSelection.startFileSelection(
       config,
       refreshToken,
       selectedFiles,
-      targetWindow
+      target
     );
   }
 }
\ No newline at end of file
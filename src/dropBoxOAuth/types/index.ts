@@ -6,15 +6,16 @@ import {
     OAuthResponse, 
     GenericFile, 
     GenericSelection,
-    TokenError
+    TokenError,
+    FileSelectionResult
   } from '../../baseOAuth/types';
   
   /**
    * Dropbox specific configuration options 
    */
-  export interface DropboxOAuthConfig extends OAuthConfig {
+  export interface DropboxOAuthConfig extends OAuthConfig<DropboxSelectionResult> {
     appKey: string;      // Dropbox API app key
-    appSecret: string;   // Dropbox API app secret
+    appSecret?: string;  // Dropbox API app secret (not needed with PKCE)
   }
   
   /**
@@ -42,6 +43,13 @@ import {
     files: DropboxFile[];
   }
   
+  /**
+   * Result of a Dropbox OAuth or file selection flow
+   */
+  export interface DropboxSelectionResult extends FileSelectionResult {
+    connector: 'dropbox';
+  }
+  
   /**
    * Dropbox connector types
    */
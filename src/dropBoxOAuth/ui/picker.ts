@@ -1,11 +1,15 @@
-import { OAuthResponse } from '../../baseOAuth/types';
+import { OAuthResponse, PickerTokenBroker } from '../../baseOAuth/types';
 import { DropboxOAuthConfig, DropboxFile, PickerError } from '../types';
 import { BasePicker } from '../../baseOAuth/ui/picker';
+import { createTranslator } from '../../baseOAuth/ui/i18n';
+import { serializeForScript } from '../../baseOAuth/utils/html';
 
 /**
  * Dropbox implementation of the file picker
  */
 export class DropboxPicker extends BasePicker {
+  protected readonly connector = 'dropbox';
+
   /**
    * Creates an HTML template specifically for the Dropbox picker
    * 
@@ -13,6 +17,9 @@ export class DropboxPicker extends BasePicker {
    * @param config Dropbox specific configuration
    * @param refreshToken Refresh token to include in selection data
    * @param preSelectedFiles Optional map of files to initialize as selected
+   * @param nonce Optional nonce for Content Security Policy
+   * @param tokenBroker Optional token broker details; the refresh token is then left out of the page
+   * @param channelId Optional channel id of the flow; callback pages read it from the state parameter
    * @returns HTML string for the Dropbox picker interface
    */
   createPickerHTML(
@@ -20,18 +27,19 @@ export class DropboxPicker extends BasePicker {
     config: DropboxOAuthConfig,
     refreshToken: string,
     preSelectedFiles?: Record<string, { name: string; mimeType: string }>,
-    nonce?: string
+    nonce?: string,
+    tokenBroker?: PickerTokenBroker,
+    channelId?: string
   ): string {
-    const ui = this.getCommonUIElements();
+    const translator = createTranslator(config.locale, config.messages);
+    const ui = this.getCommonUIElements(config.theme, translator);
 
     // Dropbox specific scripts
     const dropboxScripts = `
       ${ui.scripts.basePickerScript(tokens, {
         appKey: config.appKey,
-        appSecret: config.appSecret,
-        redirectUri: config.redirectUri,
-        refreshToken
-      }, refreshToken, preSelectedFiles)}
+        redirectUri: config.redirectUri
+      }, refreshToken, preSelectedFiles, tokenBroker, channelId)}
 
       // Safely check if Dropbox API is loaded
       function isDropboxAvailable() {
@@ -68,8 +76,8 @@ export class DropboxPicker extends BasePicker {
           const script = document.createElement('script');
           script.id = 'dropboxjs';
           script.src = 'https://www.dropbox.com/static/api/2/dropins.js';
-          script.setAttribute('data-app-key', '${config.appKey}');
-          ${nonce ? `script.setAttribute('nonce', '${nonce}');` : ''}
+          script.setAttribute('data-app-key', ${serializeForScript(config.appKey)});
+          ${nonce ? `script.setAttribute('nonce', ${serializeForScript(nonce)});` : ''}
           script.onload = () => {
             if (isDropboxAvailable()) {
               resolve(true);
@@ -120,8 +128,6 @@ export class DropboxPicker extends BasePicker {
             return;
           }
 
-          const existingIds = new Set(selectedFiles.map(file => file.id));
-          
           const newFiles = files.map(file => {
           
             // Get the file ID or generate one if not available
@@ -134,10 +140,9 @@ export class DropboxPicker extends BasePicker {
               path: file.link ? normalizeDropboxPath(file.link) : undefined,
               isDir: file.isDir || false
             };
-          }).filter(file => !existingIds.has(file.id));
+          });
 
-          selectedFiles = [...selectedFiles, ...newFiles];
-          updateFileList();
+          addFiles(newFiles);
           
         } catch (error) {
           console.error('Error processing files:', error);
@@ -211,7 +216,7 @@ export class DropboxPicker extends BasePicker {
 
     // Assemble the complete HTML
     return this.generateHTMLTemplate(
-      'Dropbox File Selector',
+      translator.t('dropboxTitle'),
       '', // No additional styles
       '', // No additional head elements
       `
@@ -220,7 +225,9 @@ export class DropboxPicker extends BasePicker {
         ${ui.submitButtonContainer}
       `,
       dropboxScripts,
-      nonce
+      nonce,
+      config.theme,
+      translator
     );
   }
 
@@ -232,9 +239,11 @@ export class DropboxPicker extends BasePicker {
     config: DropboxOAuthConfig,
     refreshToken: string,
     preSelectedFiles?: Record<string, { name: string; mimeType: string }>,
-    nonce?: string
+    nonce?: string,
+    tokenBroker?: PickerTokenBroker,
+    channelId?: string
   ): string {
     const picker = new DropboxPicker();
-    return picker.createPickerHTML(tokens, config, refreshToken, preSelectedFiles, nonce);
+    return picker.createPickerHTML(tokens, config, refreshToken, preSelectedFiles, nonce, tokenBroker, channelId);
   }
 }
\ No newline at end of file
@@ -1,39 +1,55 @@
 // dropboxOAuth/utils/token.ts
 
-import { OAuthResponse } from '../../baseOAuth/types';
+import { OAuthError, OAuthResponse, RequestOptions, TokenRefresher } from '../../baseOAuth/types';
 import { TokenError } from '../../baseOAuth/types';
+import { sendRequest } from '../../baseOAuth/utils/http';
 
 /**
  * Exchanges an authorization code for access and refresh tokens
  * @param code The authorization code from OAuth redirect
  * @param appKey The Dropbox app key
- * @param appSecret The Dropbox app secret
+ * @param appSecret The Dropbox app secret (may be omitted when a PKCE code verifier is provided)
  * @param redirectUri The OAuth redirect URI
+ * @param codeVerifier Optional PKCE code verifier of the flow
+ * @param options Optional abort signal and timeout
  * @returns An object containing the tokens
  */
 export async function exchangeDropboxCodeForTokens(
   code: string,
   appKey: string,
-  appSecret: string,
-  redirectUri: string
+  appSecret: string | undefined,
+  redirectUri: string,
+  codeVerifier?: string,
+  options: RequestOptions = {}
 ): Promise<OAuthResponse> {
   try {
+    if (!appSecret && !codeVerifier) {
+      throw new TokenError('An app secret or a PKCE code verifier is required to exchange the code');
+    }
+
     const tokenUrl = 'https://api.dropboxapi.com/oauth2/token';
     const params = new URLSearchParams({
       code,
       grant_type: 'authorization_code',
       client_id: appKey,
-      client_secret: appSecret,
       redirect_uri: redirectUri
     });
 
-    const response = await fetch(tokenUrl, {
+    // Public clients authenticate with the code verifier instead of the secret
+    if (appSecret) {
+      params.set('client_secret', appSecret);
+    }
+    if (codeVerifier) {
+      params.set('code_verifier', codeVerifier);
+    }
+
+    const response = await sendRequest(tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded'
       },
       body: params.toString()
-    });
+    }, options);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -51,7 +67,7 @@ export async function exchangeDropboxCodeForTokens(
       token_type: data.token_type
     };
   } catch (error) {
-    if (error instanceof TokenError) {
+    if (error instanceof OAuthError) {
       throw error;
     }
     throw new TokenError(
@@ -65,13 +81,17 @@ export async function exchangeDropboxCodeForTokens(
  * Refreshes an access token using a refresh token
  * @param refreshToken The refresh token
  * @param appKey The Dropbox app key
- * @param appSecret The Dropbox app secret
+ * @param appSecret The Dropbox app secret (omit for tokens obtained with PKCE)
+ * @param scopes Optional subset of the granted scopes for the new access token
+ * @param options Optional abort signal and timeout
  * @returns An object containing the new access token
  */
 export async function refreshDropboxToken(
   refreshToken: string,
   appKey: string,
-  appSecret: string
+  appSecret?: string,
+  scopes?: string[],
+  options: RequestOptions = {}
 ): Promise<{
   access_token: string;
   expires_in: number;
@@ -82,17 +102,23 @@ export async function refreshDropboxToken(
     const params = new URLSearchParams({
       refresh_token: refreshToken,
       grant_type: 'refresh_token',
-      client_id: appKey,
-      client_secret: appSecret
+      client_id: appKey
     });
 
-    const response = await fetch(tokenUrl, {
+    if (appSecret) {
+      params.set('client_secret', appSecret);
+    }
+    if (scopes?.length) {
+      params.set('scope', scopes.join(' '));
+    }
+
+    const response = await sendRequest(tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded'
       },
       body: params.toString()
-    });
+    }, { ...options, idempotent: true });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -109,7 +135,7 @@ export async function refreshDropboxToken(
       token_type: data.token_type
     };
   } catch (error) {
-    if (error instanceof TokenError) {
+    if (error instanceof OAuthError) {
       throw error;
     }
     throw new TokenError(
@@ -117,4 +143,63 @@ export async function refreshDropboxToken(
       error
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a Dropbox token refresher for a TokenManager
+ * @param appKey The Dropbox app key
+ * @param appSecret The Dropbox app secret (omit for tokens obtained with PKCE)
+ * @param scopes Optional subset of the granted scopes for new access tokens
+ * @returns A refresher that exchanges a refresh token for a new access token
+ */
+export function createDropboxTokenRefresher(
+  appKey: string,
+  appSecret?: string,
+  scopes?: string[]
+): TokenRefresher {
+  return (refreshToken, options) => refreshDropboxToken(refreshToken, appKey, appSecret, scopes, options);
+}
+
+/**
+ * Dropbox auth errors that mean the access token is already invalid
+ */
+const INVALID_TOKEN_ERRORS = ['invalid_access_token', 'expired_access_token'];
+
+/**
+ * Revokes a Dropbox grant
+ * Revoking an access token also disables its refresh token and the other access tokens of the grant.
+ * Tokens Dropbox reports as invalid or expired are treated as already revoked; other
+ * errors, e.g. a suspended user, are thrown.
+ * @param accessToken An access token of the grant
+ * @param options Optional abort signal and timeout
+ * @returns A Promise that resolves once the grant is revoked
+ */
+export async function revokeDropboxToken(accessToken: string, options: RequestOptions = {}): Promise<void> {
+  try {
+    const response = await sendRequest('https://api.dropboxapi.com/2/auth/token/revoke', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`
+      }
+    }, { ...options, idempotent: true });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401 && INVALID_TOKEN_ERRORS.includes(errorData.error?.['.tag'])) {
+        return;
+      }
+      throw new TokenError(
+        `Token revocation failed: ${errorData.error_summary || response.statusText}`,
+        errorData
+      );
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      throw error;
+    }
+    throw new TokenError(
+      error instanceof Error ? error.message : 'Token revocation failed',
+      error
+    );
+  }
+}
@@ -1,14 +1,19 @@
 import { 
   VectorizeAPIConfig, 
   ConnectorConfig,
-  UserAction 
+  UserAction,
+  RequestOptions,
+  SourceConnector
 } from "../../baseOAuth/types";
 import { 
   createSourceConnector, 
+  updateSourceConnector,
   manageUser, 
+  disconnectUser,
   getOneTimeConnectorToken as baseGetOneTimeConnectorToken 
 } from "../../baseOAuth/core/apiFunctions";
 import { GoogleDriveConnectorType } from "../types";
+import { revokeGDriveToken } from "../utils/token";
 
 /**
  * Create a Vectorize Google Drive OAuth Connector Source.
@@ -16,6 +21,7 @@ import { GoogleDriveConnectorType } from "../types";
  * @param config - An object containing your organization ID and authorization token
  * @param connectorName - Name for the connector
  * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
  *
  * @returns A Promise that resolves with the connector ID
  */
@@ -23,13 +29,14 @@ export async function createVectorizeGDriveConnector(
   config: VectorizeAPIConfig,
   connectorName: string,
   platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
 ): Promise<string> {
   const connector: ConnectorConfig = {
     name: connectorName,
     type: GoogleDriveConnectorType.VECTORIZE
   };
 
-  return createSourceConnector(config, connector, platformUrl);
+  return createSourceConnector(config, connector, platformUrl, options);
 }
 
 /**
@@ -40,6 +47,7 @@ export async function createVectorizeGDriveConnector(
  * @param clientId - OAuth2 client ID for the white label connector
  * @param clientSecret - OAuth2 client secret for the white label connector
  * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
  *
  * @returns A Promise that resolves with the connector ID
  */
@@ -49,6 +57,7 @@ export async function createWhiteLabelGDriveConnector(
   clientId: string,
   clientSecret: string,
   platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
 ): Promise<string> {
   if (!clientId || !clientSecret) {
     throw new Error("Client ID and Client Secret are required for white label connectors");
@@ -63,7 +72,39 @@ export async function createWhiteLabelGDriveConnector(
     }
   };
 
-  return createSourceConnector(config, connector, platformUrl);
+  return createSourceConnector(config, connector, platformUrl, options);
+}
+
+/**
+ * Rotates the OAuth credentials of a White Label Google Drive OAuth Connector Source.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param connectorId - ID of the connector
+ * @param clientId - New OAuth2 client ID for the white label connector
+ * @param clientSecret - New OAuth2 client secret for the white label connector
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves with the updated connector
+ */
+export async function updateWhiteLabelGDriveConnector(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  clientId: string,
+  clientSecret: string,
+  platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
+): Promise<SourceConnector<GoogleDriveConnectorType>> {
+  if (!clientId || !clientSecret) {
+    throw new Error("Client ID and Client Secret are required for white label connectors");
+  }
+
+  return updateSourceConnector<GoogleDriveConnectorType>(config, connectorId, {
+    config: {
+      "oauth2-client-id": clientId,
+      "oauth2-client-secret": clientSecret
+    }
+  }, platformUrl, options);
 }
 
 /**
@@ -76,6 +117,7 @@ export async function createWhiteLabelGDriveConnector(
  * @param userId User ID to manage
  * @param action Action to perform ("add", "edit", or "remove")
  * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
  * @returns Promise that resolves with the API response
  */
 export async function manageGDriveUser(
@@ -86,6 +128,7 @@ export async function manageGDriveUser(
   userId: string,
   action: UserAction,
   platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
 ): Promise<Response> {
   // Validate required parameters for add/edit actions
   if (action === "add" || action === "edit") {
@@ -107,7 +150,29 @@ export async function manageGDriveUser(
     payload.refreshToken = refreshToken;
   }
 
-  return manageUser(config, connectorId, userId, action, payload, platformUrl);
+  return manageUser(config, connectorId, userId, action, payload, platformUrl, options);
+}
+
+/**
+ * Disconnects a Google Drive user: revokes their Google grant, then removes them from the connector.
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param userId User ID to disconnect
+ * @param refreshToken Google OAuth refresh token (or an access token) of the user
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
+ * @returns Promise that resolves with the API response of the removal
+ */
+export async function disconnectGDriveUser(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  userId: string,
+  refreshToken: string,
+  platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
+): Promise<Response> {
+  return disconnectUser(config, connectorId, userId, () => revokeGDriveToken(refreshToken, options), platformUrl, options);
 }
 
 /**
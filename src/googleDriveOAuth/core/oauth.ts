@@ -1,8 +1,9 @@
-import { OAuthConfig, OAuthError, OAuthResponse } from '../../baseOAuth/types';
-import { GoogleDriveOAuthConfig } from '../types';
-import { exchangeGDriveCodeForTokens } from '../utils/token';
+import { AuthorizeOptions, OAuthConfig, OAuthError, OAuthResponse, RedirectOptions, RequestOptions } from '../../baseOAuth/types';
+import { GoogleDriveOAuthConfig, GoogleDriveSelectionResult } from '../types';
+import { exchangeGDriveCodeForTokens, refreshGDriveToken } from '../utils/token';
 import { GoogleDrivePicker } from '../ui/picker';
 import { BaseOAuth } from '../../baseOAuth/core/oauth';
+import { diffSelections } from '../../baseOAuth/utils/selection';
 
 /**
  * Google Drive specific OAuth implementation
@@ -29,6 +30,41 @@ export class GoogleDriveOAuth extends BaseOAuth {
     }
   }
 
+  /**
+   * Builds the Google Drive authorization request
+   * @param config The OAuth configuration
+   * @returns The authorization endpoint, parameters and popup title
+   */
+  protected static override createAuthorizationRequest(config: GoogleDriveOAuthConfig): {
+    endpoint: string;
+    params: URLSearchParams;
+    popupTitle: string;
+  } {
+    const {
+      clientId,
+      redirectUri,
+      scopes = [
+        'https://www.googleapis.com/auth/drive.file',
+      ],
+    } = config;
+
+    // Build OAuth URL with parameters
+    const params = new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: scopes.join(' ')
+    });
+
+    return {
+      endpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      params,
+      popupTitle: 'Google Drive OAuth Login'
+    };
+  }
+
   /**
    * Creates an OAuth popup window for Google authentication
    * @param config The OAuth configuration
@@ -38,35 +74,16 @@ export class GoogleDriveOAuth extends BaseOAuth {
     try {
       this.validateConfig(config);
 
-      const {
-        clientId,
-        redirectUri,
-        scopes = [
-          'https://www.googleapis.com/auth/drive.file',
-        ],
-      } = config;
-
-      // Set up the OAuth handler in the window
-      this.setupOAuthHandler(config);
-
-      // Build OAuth URL with parameters
-      const params = new URLSearchParams({
-        client_id: clientId,
-        redirect_uri: redirectUri,
-        response_type: 'code',
-        access_type: 'offline',
-        prompt: 'consent',
-        scope: scopes.join(' ')
-      });
-
-      const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+      // Open the message channel the callback page reports back on
+      const channelId = this.setupOAuthHandler(config);
 
       // Create the popup window
-      const popup = this.createOAuthPopup(authUrl, 'Google Drive OAuth Login');
+      const { endpoint, params, popupTitle } = this.createAuthorizationRequest(config);
+      const popup = this.openAuthorizationPopup(endpoint, params, config, popupTitle, channelId);
       
       // Monitor the popup
       if (popup) {
-        this.monitorPopup(popup);
+        this.monitorPopup(popup, config, channelId);
       }
 
       return popup;
@@ -86,36 +103,97 @@ export class GoogleDriveOAuth extends BaseOAuth {
     }
   }
 
+  /**
+   * Runs the Google Drive OAuth flow and resolves with the user's selection
+   * Promise-based alternative to startOAuth; the config callbacks are optional.
+   * @param config The OAuth configuration
+   * @param options Optional abort signal and the user's previous selection; aborting closes the popup
+   * @returns A Promise that resolves with the selected files, the refresh token (or token handle) and the changes since previousSelection
+   * @throws OAuthError if the flow fails, is aborted or the user closes the popup
+   */
+  public static override async authorize(
+    config: GoogleDriveOAuthConfig,
+    options?: AuthorizeOptions<{ name: string; mimeType: string }>
+  ): Promise<GoogleDriveSelectionResult> {
+    const result = await this.runAuthorization(config, options);
+
+    return { ...result, changes: diffSelections(options?.previousSelection, result.selectedFiles) };
+  }
+
+  /**
+   * Starts the Google Drive OAuth flow by navigating the current tab to Google Drive
+   * @param config The OAuth configuration
+   * @param options Optional return URL and files to preselect in the picker
+   * @returns A Promise that resolves when navigation has started
+   * @throws OAuthError if the configuration is invalid
+   */
+  public static override startOAuthRedirect(
+    config: GoogleDriveOAuthConfig,
+    options?: RedirectOptions
+  ): Promise<void> {
+    return super.startOAuthRedirect(config, options);
+  }
+
+  /**
+   * Reads the outcome of a Google Drive redirect flow after the tab returned to the app
+   * @returns A Promise that resolves with the user's selection, or null if no redirect flow has finished
+   * @throws OAuthError if the flow failed, or USER_CANCELLED if the user cancelled it
+   */
+  public static override getRedirectResult(): Promise<GoogleDriveSelectionResult | null> {
+    return this.readRedirectResult<GoogleDriveSelectionResult>();
+  }
+
   /**
    * Creates a response for the OAuth callback page
    * @param code Authorization code from the OAuth redirect
    * @param config The OAuth configuration
    * @param error Optional error from the OAuth process
+   * @param nonce Optional nonce for Content Security Policy
+   * @param request The callback request; its OAuth state is verified, and callbacks without it fail with INVALID_STATE
+   * @param options Optional abort signal and timeout of the token exchange
    * @returns A Response object with the callback page
    */
   public static override async createCallbackResponse(
     code: string,
     config: GoogleDriveOAuthConfig,
     error?: string | OAuthError,
-    nonce?: string
+    nonce?: string,
+    request?: Request,
+    options?: RequestOptions
   ): Promise<Response> {
     if (error) {
       const errorObj = typeof error === 'string' ? new OAuthError(error, 'CALLBACK_ERROR') : error;
-      return this.createErrorResponse(errorObj, nonce);
+      return this.createErrorResponse(errorObj, nonce, request, config);
     }
 
     try {
+      this.verifyState(request);
+
+      const codeVerifier = this.getCodeVerifier(config, request);
+
       const tokens = await exchangeGDriveCodeForTokens(
         code,
         config.clientId,
         config.clientSecret,
-        config.redirectUri
+        config.redirectUri,
+        codeVerifier,
+        options
       );
 
+      // In token broker mode the picker only gets a sealed handle instead of the long-lived token
+      const tokenBroker = await this.createPickerTokenBroker(config, 'google-drive', tokens.refresh_token);
+
       // Use the Google Drive picker template
-      const htmlContent = GoogleDrivePicker.createPickerHTML(tokens, config, tokens.refresh_token, undefined, nonce);
+      const htmlContent = GoogleDrivePicker.createPickerHTML(
+        this.getPickerTokens(tokens, tokenBroker),
+        config,
+        tokenBroker ? '' : tokens.refresh_token,
+        undefined,
+        nonce,
+        tokenBroker
+      );
 
-      return new Response(htmlContent, { headers: { 'Content-Type': 'text/html' } });
+      return this.createHTMLResponse(htmlContent, request);
     } catch (error) {
       return this.createErrorResponse(
         error instanceof OAuthError ? error : new OAuthError(
@@ -123,11 +201,41 @@ export class GoogleDriveOAuth extends BaseOAuth {
           'CALLBACK_ERROR',
           error
         ),
-        nonce
+        nonce,
+        request,
+        config
       );
     }
   }
 
+  /**
+   * Creates a response for the token broker route used in token broker mode
+   * Exchanges a token handle for a short-lived access token, so the refresh token never leaves the server
+   * @param request The incoming broker request
+   * @param config The OAuth configuration including tokenBroker.secret
+   * @param options Optional abort signal and timeout of the provider requests
+   * @returns A JSON Response with the access token
+   */
+  public static async createTokenBrokerResponse(
+    request: Request,
+    config: GoogleDriveOAuthConfig,
+    options?: RequestOptions
+  ): Promise<Response> {
+    return this.createBrokerResponse(request, config, 'google-drive', async (action, refreshToken) => {
+      if (action !== 'token') {
+        throw new OAuthError(`Unsupported token broker action: ${action}`, 'INVALID_REQUEST');
+      }
+
+      return refreshGDriveToken(
+        refreshToken,
+        config.clientId,
+        config.clientSecret,
+        config.tokenBroker?.scopes,
+        options
+      );
+    });
+  }
+
   /**
    * Redirects the user to the Vectorize Google Drive connector authentication flow
    * with a one-time token for security
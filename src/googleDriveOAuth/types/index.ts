@@ -3,13 +3,14 @@ import {
   OAuthError, 
   OAuthResponse, 
   GenericFile, 
-  GenericSelection 
+  GenericSelection,
+  FileSelectionResult
 } from '../../baseOAuth/types';
 
 /**
  * Google Drive specific configuration options 
  */
-export interface GoogleDriveOAuthConfig extends OAuthConfig {
+export interface GoogleDriveOAuthConfig extends OAuthConfig<GoogleDriveSelectionResult> {
   clientId: string;      // Google OAuth client ID
   clientSecret: string;  // Google OAuth client secret
   apiKey: string;        // Google API key for the Picker API
@@ -39,6 +40,13 @@ export interface DriveSelection extends GenericSelection {
   files: DriveFile[];
 }
 
+/**
+ * Result of a Google Drive OAuth or file selection flow
+ */
+export interface GoogleDriveSelectionResult extends FileSelectionResult {
+  connector: 'google-drive';
+}
+
 /**
  * Google Drive connector types
  */
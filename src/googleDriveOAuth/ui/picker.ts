@@ -1,11 +1,15 @@
-import { OAuthResponse } from '../../baseOAuth/types';
+import { OAuthResponse, PickerTokenBroker } from '../../baseOAuth/types';
 import { GoogleDriveOAuthConfig } from '../types';
 import { BasePicker } from '../../baseOAuth/ui/picker';
+import { createTranslator } from '../../baseOAuth/ui/i18n';
+import { html, nonceAttribute, serializeForScript } from '../../baseOAuth/utils/html';
 
 /**
  * Google Drive implementation of the file picker
  */
 export class GoogleDrivePicker extends BasePicker {
+  protected readonly connector = 'google-drive';
+
   /**
    * Creates an HTML template specifically for the Google Drive picker
    * 
@@ -13,6 +17,9 @@ export class GoogleDrivePicker extends BasePicker {
    * @param config Google Drive specific configuration
    * @param refreshToken Refresh token to include in selection data
    * @param preSelectedFiles Optional map of files to initialize as selected
+   * @param nonce Optional nonce for Content Security Policy
+   * @param tokenBroker Optional token broker details; the refresh token is then left out of the page
+   * @param channelId Optional channel id of the flow; callback pages read it from the state parameter
    * @returns HTML string for the Google Drive picker interface
    */
   createPickerHTML(
@@ -20,35 +27,38 @@ export class GoogleDrivePicker extends BasePicker {
     config: GoogleDriveOAuthConfig,
     refreshToken: string,
     preSelectedFiles?: Record<string, { name: string; mimeType: string }>,
-    nonce?: string
+    nonce?: string,
+    tokenBroker?: PickerTokenBroker,
+    channelId?: string
   ): string {
-    const ui = this.getCommonUIElements();
+    const translator = createTranslator(config.locale, config.messages);
+    const { t } = translator;
+    const ui = this.getCommonUIElements(config.theme, translator);
     
     // Google Drive specific warning
-    const googleDriveWarning = `
-      <div class="bg-yellow-50 border-l-4 border-yellow-400 p-4 my-4">
+    const googleDriveWarning = html`
+      <div class="bg-yellow-50 border-s-4 border-yellow-400 p-4 my-4">
         <div class="flex">
           <div class="flex-shrink-0">
-            <svg class="h-5 w-5 text-yellow-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+            <svg class="h-5 w-5 text-yellow-400" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
               <path fill-rule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clip-rule="evenodd" />
             </svg>
           </div>
-          <div class="ml-3">
+          <div class="ms-3">
             <p class="text-sm text-yellow-700">
-              <span class="font-medium">Important:</span> Google Workspace documents like presentations and Google Docs cannot be exported if they are larger than 10MB. Please convert such files to a compatible format (e.g., PDF) before selection if you need to process them.
+              <span class="font-medium">${t('pickerImportant')}</span> ${t('googleDriveSizeWarning')}
             </p>
           </div>
         </div>
       </div>
-    `;
+    `.toString();
 
     // Google Drive specific scripts
     const googleDriveScripts = `
       ${ui.scripts.basePickerScript(tokens, {
         clientId: config.clientId,
-        apiKey: config.apiKey,
-        refreshToken
-      }, refreshToken, preSelectedFiles)}
+        apiKey: config.apiKey
+      }, refreshToken, preSelectedFiles, tokenBroker, channelId)}
 
       function loadPicker() {
         try {
@@ -62,8 +72,16 @@ export class GoogleDrivePicker extends BasePicker {
         }
       }
 
-      function initPicker() {
-        createPicker(tokens.access_token);
+      async function initPicker() {
+        try {
+          createPicker(await getAccessToken());
+        } catch (error) {
+          handleError({
+            message: error.message || 'Failed to get an access token',
+            code: 'TOKEN_ERROR',
+            details: error
+          });
+        }
       }
 
       function createPicker(token) {
@@ -83,19 +101,19 @@ export class GoogleDrivePicker extends BasePicker {
             .setIncludeFolders(true)
             .setSelectFolderEnabled(true)
             .setParent('root')
-            .setLabel('My Drive');
+            .setLabel(translate('googleDriveMyDrive'));
 
           const sharedDriveView = new google.picker.DocsView(google.picker.ViewId.DOCS)
             .setEnableTeamDrives(true)
             .setIncludeFolders(true)
             .setSelectFolderEnabled(true)
-            .setLabel('Shared Drives');
+            .setLabel(translate('googleDriveSharedDrives'));
 
           const sharedWithMeView = new google.picker.DocsView(google.picker.ViewId.SHARED_WITH_ME)
             .setIncludeFolders(true)
             .setOwnedByMe(false)
             .setSelectFolderEnabled(true)
-            .setLabel('Shared with me');
+            .setLabel(translate('googleDriveSharedWithMe'));
 
           const picker = new google.picker.PickerBuilder()
             .enableFeature(google.picker.Feature.MULTISELECT_ENABLED)
@@ -105,6 +123,9 @@ export class GoogleDrivePicker extends BasePicker {
             .setOAuthToken(token)
             .setDeveloperKey(config.apiKey)
             .setAppId(appId)
+            // Blank popups and embedded frames have no URL of their own, so name the app's origin
+            .setOrigin(window.origin || window.location.origin)
+            .setLocale(${serializeForScript(translator.locale)})
             .setCallback(handlePickerCallback)
             .build();
 
@@ -120,11 +141,7 @@ export class GoogleDrivePicker extends BasePicker {
 
       function handlePickerCallback(data) {
         if (data[google.picker.Response.ACTION] === google.picker.Action.PICKED) {
-          const newDocs = data[google.picker.Response.DOCUMENTS];
-          const existingIds = new Set(selectedFiles.map(file => file.id));
-          const uniqueNewFiles = newDocs.filter(file => !existingIds.has(file.id));
-          selectedFiles = [...selectedFiles, ...uniqueNewFiles];
-          updateFileList();
+          addFiles(data[google.picker.Response.DOCUMENTS]);
         }
       }
 
@@ -141,13 +158,13 @@ export class GoogleDrivePicker extends BasePicker {
 
     // Google-specific head includes
     const googleHead = `
-      <script src="https://apis.google.com/js/api.js"${nonce ? ` nonce="${nonce}"` : ''}></script>
-      <script src="https://apis.google.com/js/platform.js"${nonce ? ` nonce="${nonce}"` : ''}></script>
+      <script src="https://apis.google.com/js/api.js"${nonceAttribute(nonce)}></script>
+      <script src="https://apis.google.com/js/platform.js"${nonceAttribute(nonce)}></script>
     `;
 
     // Assemble the complete HTML
     return this.generateHTMLTemplate(
-      'Google Drive File Selector',
+      t('googleDriveTitle'),
       '', // No additional styles
       googleHead,
       `
@@ -157,7 +174,9 @@ export class GoogleDrivePicker extends BasePicker {
         ${ui.submitButtonContainer}
       `,
       googleDriveScripts,
-      nonce
+      nonce,
+      config.theme,
+      translator
     );
   }
 
@@ -169,9 +188,11 @@ export class GoogleDrivePicker extends BasePicker {
     config: GoogleDriveOAuthConfig,
     refreshToken: string,
     preSelectedFiles?: Record<string, { name: string; mimeType: string }>,
-    nonce?: string
+    nonce?: string,
+    tokenBroker?: PickerTokenBroker,
+    channelId?: string
   ): string {
     const picker = new GoogleDrivePicker();
-    return picker.createPickerHTML(tokens, config, refreshToken, preSelectedFiles, nonce);
+    return picker.createPickerHTML(tokens, config, refreshToken, preSelectedFiles, nonce, tokenBroker, channelId);
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { OAuthResponse } from '../../baseOAuth/types';
+import { OAuthError, OAuthResponse, RequestOptions, TokenRefresher } from '../../baseOAuth/types';
 import { TokenError } from '../../baseOAuth/types';
+import { sendRequest } from '../../baseOAuth/utils/http';
 
 /**
  * Exchanges an authorization code for access and refresh tokens
@@ -7,13 +8,17 @@ import { TokenError } from '../../baseOAuth/types';
  * @param clientId The OAuth client ID
  * @param clientSecret The OAuth client secret
  * @param redirectUri The OAuth redirect URI
+ * @param codeVerifier Optional PKCE code verifier of the flow
+ * @param options Optional abort signal and timeout
  * @returns An object containing the tokens
  */
 export async function exchangeGDriveCodeForTokens(
   code: string,
   clientId: string,
   clientSecret: string,
-  redirectUri: string
+  redirectUri: string,
+  codeVerifier?: string,
+  options: RequestOptions = {}
 ): Promise<OAuthResponse> {
   try {
     const tokenUrl = 'https://oauth2.googleapis.com/token';
@@ -25,13 +30,17 @@ export async function exchangeGDriveCodeForTokens(
       grant_type: 'authorization_code'
     });
 
-    const response = await fetch(tokenUrl, {
+    if (codeVerifier) {
+      params.set('code_verifier', codeVerifier);
+    }
+
+    const response = await sendRequest(tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded'
       },
       body: params.toString()
-    });
+    }, options);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -49,7 +58,7 @@ export async function exchangeGDriveCodeForTokens(
       token_type: data.token_type
     };
   } catch (error) {
-    if (error instanceof TokenError) {
+    if (error instanceof OAuthError) {
       throw error;
     }
     throw new TokenError(
@@ -64,12 +73,16 @@ export async function exchangeGDriveCodeForTokens(
  * @param refreshToken The refresh token
  * @param clientId The OAuth client ID
  * @param clientSecret The OAuth client secret
+ * @param scopes Optional subset of the granted scopes for the new access token
+ * @param options Optional abort signal and timeout
  * @returns An object containing the new access token
  */
 export async function refreshGDriveToken(
   refreshToken: string,
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  scopes?: string[],
+  options: RequestOptions = {}
 ): Promise<{
   access_token: string;
   expires_in: number;
@@ -84,13 +97,17 @@ export async function refreshGDriveToken(
       grant_type: 'refresh_token'
     });
 
-    const response = await fetch(tokenUrl, {
+    if (scopes?.length) {
+      params.set('scope', scopes.join(' '));
+    }
+
+    const response = await sendRequest(tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded'
       },
       body: params.toString()
-    });
+    }, { ...options, idempotent: true });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -107,7 +124,7 @@ export async function refreshGDriveToken(
       token_type: data.token_type
     };
   } catch (error) {
-    if (error instanceof TokenError) {
+    if (error instanceof OAuthError) {
       throw error;
     }
     throw new TokenError(
@@ -115,4 +132,58 @@ export async function refreshGDriveToken(
       error
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a Google Drive token refresher for a TokenManager
+ * @param clientId The OAuth client ID
+ * @param clientSecret The OAuth client secret
+ * @param scopes Optional subset of the granted scopes for new access tokens
+ * @returns A refresher that exchanges a refresh token for a new access token
+ */
+export function createGDriveTokenRefresher(
+  clientId: string,
+  clientSecret: string,
+  scopes?: string[]
+): TokenRefresher {
+  return (refreshToken, options) => refreshGDriveToken(refreshToken, clientId, clientSecret, scopes, options);
+}
+
+/**
+ * Revokes a Google grant
+ * Revoking either the refresh token or one of its access tokens removes the whole grant.
+ * Tokens Google no longer knows are treated as already revoked.
+ * @param token The refresh token or access token to revoke
+ * @param options Optional abort signal and timeout
+ * @returns A Promise that resolves once the grant is revoked
+ */
+export async function revokeGDriveToken(token: string, options: RequestOptions = {}): Promise<void> {
+  try {
+    const response = await sendRequest('https://oauth2.googleapis.com/revoke', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ token }).toString()
+    }, { ...options, idempotent: true });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (errorData.error === 'invalid_token') {
+        return;
+      }
+      throw new TokenError(
+        `Token revocation failed: ${errorData.error || response.statusText}`,
+        errorData
+      );
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      throw error;
+    }
+    throw new TokenError(
+      error instanceof Error ? error.message : 'Token revocation failed',
+      error
+    );
+  }
+}
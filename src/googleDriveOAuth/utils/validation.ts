@@ -1,4 +1,4 @@
-import { OAuthError, ConfigurationError } from '../../baseOAuth/types';
+import { ConfigurationError } from '../../baseOAuth/types';
 import { GoogleDriveOAuthConfig } from '../types';
 
 /**
@@ -20,28 +20,3 @@ export function validateConfig(config: GoogleDriveOAuthConfig): void {
     throw new ConfigurationError('Client secret is required');
   }
 }
-
-/**
- * Creates an HTML error response for the OAuth popup
- * @param error The error to embed in the response
- * @param nonce Optional nonce for Content Security Policy
- * @returns A Response object with the error handling HTML
- */
-export function createErrorResponse(error: OAuthError, nonce?: string): Response {
-  // Create a plain object with all properties we want to transfer
-  const errorData = {
-    message: error.message,
-    code: error.code,
-    details: error.details,
-    name: error.name
-  };
-
-  return new Response(
-    `<script${nonce ? ` nonce="${nonce}"` : ''}>
-      const errorObj = ${JSON.stringify(errorData)};
-      window.opener.__oauthHandler?.onError(errorObj);
-      window.close();
-    </script>`,
-    { headers: { 'Content-Type': 'text/html' } }
-  );
-}
\ No newline at end of file
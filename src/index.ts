@@ -14,13 +14,18 @@ export {
   GoogleDriveConnectorType,
   createVectorizeGDriveConnector,
   createWhiteLabelGDriveConnector,
+  updateWhiteLabelGDriveConnector,
   manageGDriveUser,
   refreshGDriveToken,
+  createGDriveTokenRefresher,
+  revokeGDriveToken,
+  disconnectGDriveUser,
 } from './googleDriveOAuth';
 
 // Type exports
 export type {
   GoogleDriveOAuthConfig,
+  GoogleDriveSelectionResult,
   PickerError as GoogleDrivePickerError,
 } from './googleDriveOAuth';
 
@@ -32,13 +37,18 @@ export {
   DropboxConnectorType,
   createVectorizeDropboxConnector,
   createWhiteLabelDropboxConnector,
+  updateWhiteLabelDropboxConnector,
   manageDropboxUser,
   refreshDropboxToken,
+  createDropboxTokenRefresher,
+  revokeDropboxToken,
+  disconnectDropboxUser,
 } from './dropBoxOAuth';
 
 // Type exports
 export type {
   DropboxOAuthConfig,
+  DropboxSelectionResult,
   PickerError as DropboxPickerError,
 } from './dropBoxOAuth';
 
@@ -49,8 +59,11 @@ export {
   NotionConnectorType,
   createVectorizeNotionConnector,
   createWhiteLabelNotionConnector,
+  updateWhiteLabelNotionConnector,
   manageNotionUser,
   refreshNotionToken,
+  revokeNotionToken,
+  disconnectNotionUser,
 } from './notionOAuth';
 
 // Type exports
@@ -59,17 +72,33 @@ export type {
   PickerError as NotionPickerError,
   NotionPage,
   NotionPageSelection,
+  NotionSelectionResult,
 } from './notionOAuth';
 
 // Re-export shared functionality with specific names
 export { getOneTimeConnectorToken } from './baseOAuth/core/apiFunctions';
 
-// Re-export shared types
+// Re-export shared types; the error classes (OAuthError, VectorizeAPIError, …)
+// come with the base functionality as values, so they work with instanceof
 export type {
-  OAuthError,
   OAuthConfig,
   OAuthResponse,
   ConnectorConfig,
+  SourceConnector,
+  SourceConnectorUpdate,
+  ConnectorUser,
+  ConnectorUserPage,
+  SelectionDiff,
+  AuthorizeOptions,
+  ConnectTheme,
+  ThemeColors,
+  ConnectMessages,
+  PluralMessage,
   VectorizeAPIConfig,
   UserAction,
+  BulkUserOperation,
+  BulkUserResult,
+  BulkCheckpoint,
+  BulkManageUsersOptions,
+  BulkManageUsersReport,
 } from './baseOAuth/types';
\ No newline at end of file
@@ -1,14 +1,19 @@
 import { 
   VectorizeAPIConfig, 
   ConnectorConfig,
-  UserAction 
+  UserAction,
+  RequestOptions,
+  SourceConnector
 } from "../../baseOAuth/types";
 import { 
   createSourceConnector, 
+  updateSourceConnector,
   manageUser, 
+  disconnectUser,
   getOneTimeConnectorToken as baseGetOneTimeConnectorToken 
 } from "../../baseOAuth/core/apiFunctions";
 import { NotionConnectorType } from "../types";
+import { revokeNotionToken } from "../utils/token";
 
 /**
  * Create a Vectorize Notion OAuth Connector Source
@@ -16,6 +21,7 @@ import { NotionConnectorType } from "../types";
  * @param config - An object containing your organization ID and authorization token
  * @param connectorName - Name for the connector
  * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
  *
  * @returns A Promise that resolves with the connector ID
  */
@@ -23,86 +29,14 @@ export async function createVectorizeNotionConnector(
   config: VectorizeAPIConfig,
   connectorName: string,
   platformUrl: string = "https://api.vectorize.io/v1",
-): Promise<any> {
-  try {
+  options?: RequestOptions,
+): Promise<string> {
+  const connector: ConnectorConfig = {
+    name: connectorName,
+    type: NotionConnectorType.VECTORIZE
+  };
 
-    const connector: ConnectorConfig = {
-      name: connectorName,
-      type: NotionConnectorType.VECTORIZE
-    };
-    
-    try {
-      const result = await createSourceConnector(config, connector, platformUrl);
-      return result;
-    } catch (error: unknown) {
-      // Format the error data properly to avoid [object Object]
-      const innerError = error instanceof Error ? error : new Error(typeof error === 'string' ? error : 'Unknown error');
-      
-      // Extract and format error details
-      let errorDetails = "";
-      try {
-        // Try to parse the error message if it contains JSON-like structure
-        const errorMatch = innerError.message.match(/Error:\s*(.*)/);
-        if (errorMatch && errorMatch[1]) {
-          try {
-            // Attempt to parse if it looks like JSON
-            if (errorMatch[1].includes('{') && errorMatch[1].includes('}')) {
-              const jsonStr = errorMatch[1].replace(/\[object Object\]/g, '{}');
-              const errorObj = JSON.parse(jsonStr);
-              errorDetails = JSON.stringify(errorObj, null, 2);
-            } else {
-              errorDetails = errorMatch[1];
-            }
-          } catch {
-            errorDetails = errorMatch[1];
-          }
-        }
-      } catch {
-        // If parsing fails, use the original message
-        errorDetails = innerError.message;
-      }
-      
-      console.error(`[Vectorize] Error in createSourceConnector: ${innerError.message}`);
-      console.error(`[Vectorize] Error details (formatted):`, errorDetails);
-      
-      // Additional debug info about the error object
-      if (error instanceof Object) {
-        try {
-          const errorKeys = Object.keys(error);
-          console.error(`[Vectorize] Error object keys:`, errorKeys);
-          
-          // Log all properties of the error object
-          errorKeys.forEach(key => {
-            const value = (error as any)[key];
-            const displayValue = typeof value === 'object' ? JSON.stringify(value, null, 2) : value;
-            console.error(`[Vectorize] Error.${key}:`, displayValue);
-          });
-        } catch (err) {
-          console.error(`[Vectorize] Could not enumerate error properties:`, err);
-        }
-      }
-      
-      console.error(`[Vectorize] Stack trace:`, innerError.stack);
-      throw innerError;
-    }
-  } catch (error: unknown) {
-    const outerError = error instanceof Error 
-      ? error 
-      : new Error(typeof error === 'string' ? error : 'Unknown error');
-    
-    console.error(`[Vectorize] Unexpected error in createVectorizeNotionConnector: ${outerError.message}`);
-    console.error(`[Vectorize] Stack trace:`, outerError.stack);
-    
-    // Create a more informative error with properly formatted details
-    let enhancedMessage = `Failed to create Vectorize Notion connector: ${outerError.message}`;
-    
-    // If we have a 500 error with [object Object], try to improve the message
-    if (outerError.message.includes('[object Object]')) {
-      enhancedMessage = `Failed to create Vectorize Notion connector (API returned 500 Internal Server Error). Check the server logs for more details.`;
-    }
-    
-    throw new Error(enhancedMessage);
-  }
+  return createSourceConnector(config, connector, platformUrl, options);
 }
 
 /**
@@ -113,6 +47,7 @@ export async function createVectorizeNotionConnector(
  * @param clientId - Notion API client ID for the white label connector
  * @param clientSecret - Notion API client secret for the white label connector
  * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
  *
  * @returns A Promise that resolves with the connector ID
  */
@@ -122,6 +57,7 @@ export async function createWhiteLabelNotionConnector(
   clientId: string,
   clientSecret: string,
   platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
 ): Promise<string> {
   if (!clientId || !clientSecret) {
     throw new Error("Client ID and Client Secret are required for white label connectors");
@@ -136,7 +72,39 @@ export async function createWhiteLabelNotionConnector(
     }
   };
 
-  return createSourceConnector(config, connector, platformUrl);
+  return createSourceConnector(config, connector, platformUrl, options);
+}
+
+/**
+ * Rotates the OAuth credentials of a White Label Notion OAuth Connector Source.
+ *
+ * @param config - An object containing your organization ID and authorization token
+ * @param connectorId - ID of the connector
+ * @param clientId - New Notion API client ID for the white label connector
+ * @param clientSecret - New Notion API client secret for the white label connector
+ * @param platformUrl - URL of the Vectorize API (primarily used for testing)
+ * @param options - Optional abort signal and timeout
+ *
+ * @returns A Promise that resolves with the updated connector
+ */
+export async function updateWhiteLabelNotionConnector(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  clientId: string,
+  clientSecret: string,
+  platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
+): Promise<SourceConnector<NotionConnectorType>> {
+  if (!clientId || !clientSecret) {
+    throw new Error("Client ID and Client Secret are required for white label connectors");
+  }
+
+  return updateSourceConnector<NotionConnectorType>(config, connectorId, {
+    config: {
+      "client-id": clientId,
+      "client-secret": clientSecret
+    }
+  }, platformUrl, options);
 }
 
 /**
@@ -149,6 +117,7 @@ export async function createWhiteLabelNotionConnector(
  * @param userId User ID to manage
  * @param action Action to perform ("add", "edit", or "remove")
  * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
  * @returns Promise that resolves with the API response
  */
 export async function manageNotionUser(
@@ -159,6 +128,7 @@ export async function manageNotionUser(
   userId: string,
   action: UserAction,
   platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
 ): Promise<Response> {
   // Validate required parameters for add/edit actions
   if (action === "add" || action === "edit") {
@@ -180,7 +150,40 @@ export async function manageNotionUser(
     payload.accessToken = accessToken;
   }
 
-  return manageUser(config, connectorId, userId, action, payload, platformUrl);
+  return manageUser(config, connectorId, userId, action, payload, platformUrl, options);
+}
+
+/**
+ * Disconnects a Notion user: revokes their Notion access token, then removes them from the connector.
+ *
+ * @param config VectorizeAPIConfig containing authorization and organizationId
+ * @param connectorId ID of the connector
+ * @param userId User ID to disconnect
+ * @param accessToken Notion access token of the user
+ * @param clientId The Notion OAuth client ID
+ * @param clientSecret The Notion OAuth client secret
+ * @param platformUrl Optional URL of the Vectorize API (primarily used for testing)
+ * @param options Optional abort signal and timeout
+ * @returns Promise that resolves with the API response of the removal
+ */
+export async function disconnectNotionUser(
+  config: VectorizeAPIConfig,
+  connectorId: string,
+  userId: string,
+  accessToken: string,
+  clientId: string,
+  clientSecret: string,
+  platformUrl: string = "https://api.vectorize.io/v1",
+  options?: RequestOptions,
+): Promise<Response> {
+  return disconnectUser(
+    config,
+    connectorId,
+    userId,
+    () => revokeNotionToken(accessToken, clientId, clientSecret, options),
+    platformUrl,
+    options
+  );
 }
 
 /**
@@ -1,7 +1,8 @@
 import { BaseOAuth } from '../../baseOAuth/core/oauth';
-import { OAuthConfig, OAuthError, OAuthResponse } from '../../baseOAuth/types';
-import { NotionOAuthConfig } from '../types';
-import { exchangeNotionCodeForTokens } from '../utils/token';
+import { diffSelections } from '../../baseOAuth/utils/selection';
+import { AuthorizeOptions, OAuthConfig, OAuthError, OAuthResponse, RedirectOptions, RequestOptions } from '../../baseOAuth/types';
+import { NotionOAuthConfig, NotionSelectionResult } from '../types';
+import { exchangeNotionCodeForTokens, searchNotion } from '../utils/token';
 import { NotionPicker } from '../ui/picker';
 
 /**
@@ -25,6 +26,38 @@ export class NotionOAuth extends BaseOAuth {
     }
   }
 
+  /**
+   * Builds the Notion authorization request
+   * @param config The OAuth configuration
+   * @returns The authorization endpoint, parameters and popup title
+   */
+  protected static override createAuthorizationRequest(config: NotionOAuthConfig): {
+    endpoint: string;
+    params: URLSearchParams;
+    popupTitle: string;
+  } {
+    const {
+      clientId,
+      redirectUri,
+      scopes = ["page:read", "database:read"],
+    } = config;
+
+    // Build OAuth URL with parameters
+    const params = new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      owner: "user",
+      scope: scopes.join(' ')
+    });
+
+    return {
+      endpoint: 'https://api.notion.com/v1/oauth/authorize',
+      params,
+      popupTitle: 'Notion OAuth Login'
+    };
+  }
+
   /**
    * Creates an OAuth popup window for Notion authentication
    * @param config The OAuth configuration
@@ -34,32 +67,16 @@ export class NotionOAuth extends BaseOAuth {
     try {
       this.validateConfig(config);
 
-      const {
-        clientId,
-        redirectUri,
-        scopes = ["page:read", "database:read"],
-      } = config;
-
-      // Set up the OAuth handler in the window
-      this.setupOAuthHandler(config);
-
-      // Build OAuth URL with parameters
-      const params = new URLSearchParams({
-        client_id: clientId,
-        redirect_uri: redirectUri,
-        response_type: "code",
-        owner: "user",
-        scope: scopes.join(' ')
-      });
-
-      const authUrl = `https://api.notion.com/v1/oauth/authorize?${params.toString()}`;
+      // Open the message channel the callback page reports back on
+      const channelId = this.setupOAuthHandler(config);
 
       // Create the popup window
-      const popup = this.createOAuthPopup(authUrl, 'Notion OAuth Login');
+      const { endpoint, params, popupTitle } = this.createAuthorizationRequest(config);
+      const popup = this.openAuthorizationPopup(endpoint, params, config, popupTitle, channelId);
       
       // Monitor the popup
       if (popup) {
-        this.monitorPopup(popup);
+        this.monitorPopup(popup, config, channelId);
       }
 
       return popup;
@@ -79,37 +96,97 @@ export class NotionOAuth extends BaseOAuth {
     }
   }
 
+  /**
+   * Runs the Notion OAuth flow and resolves with the user's selection
+   * Promise-based alternative to startOAuth; the config callbacks are optional.
+   * @param config The OAuth configuration
+   * @param options Optional abort signal and the user's previous selection; aborting closes the popup
+   * @returns A Promise that resolves with the selected pages, the access token (or token handle) and the changes since previousSelection
+   * @throws OAuthError if the flow fails, is aborted or the user closes the popup
+   */
+  public static override async authorize(
+    config: NotionOAuthConfig,
+    options?: AuthorizeOptions<{ title: string; pageId: string; parentType?: string }>
+  ): Promise<NotionSelectionResult> {
+    const result = await this.runAuthorization(config, options);
+
+    return { ...result, changes: diffSelections(options?.previousSelection, result.selectedPages) };
+  }
+
+  /**
+   * Starts the Notion OAuth flow by navigating the current tab to Notion
+   * @param config The OAuth configuration
+   * @param options Optional return URL and files to preselect in the picker
+   * @returns A Promise that resolves when navigation has started
+   * @throws OAuthError if the configuration is invalid
+   */
+  public static override startOAuthRedirect(
+    config: NotionOAuthConfig,
+    options?: RedirectOptions
+  ): Promise<void> {
+    return super.startOAuthRedirect(config, options);
+  }
+
+  /**
+   * Reads the outcome of a Notion redirect flow after the tab returned to the app
+   * @returns A Promise that resolves with the user's selection, or null if no redirect flow has finished
+   * @throws OAuthError if the flow failed, or USER_CANCELLED if the user cancelled it
+   */
+  public static override getRedirectResult(): Promise<NotionSelectionResult | null> {
+    return this.readRedirectResult<NotionSelectionResult>();
+  }
+
   /**
    * Creates a response for the OAuth callback page
    * @param code Authorization code from the OAuth redirect
    * @param config The OAuth configuration
    * @param error Optional error from the OAuth process
    * @param nonce Optional nonce for Content Security Policy
+   * @param request The callback request; its OAuth state is verified, and callbacks without it fail with INVALID_STATE
+   * @param options Optional abort signal and timeout of the token exchange
    * @returns A Response object with the callback page
    */
   public static override async createCallbackResponse(
     code: string,
     config: NotionOAuthConfig,
     error?: string | OAuthError,
-    nonce?: string
+    nonce?: string,
+    request?: Request,
+    options?: RequestOptions
   ): Promise<Response> {
     if (error) {
       const errorObj = typeof error === 'string' ? new OAuthError(error, 'CALLBACK_ERROR') : error;
-      return this.createErrorResponse(errorObj, nonce);
+      return this.createErrorResponse(errorObj, nonce, request, config);
     }
 
     try {
+      this.verifyState(request);
+
+      const codeVerifier = this.getCodeVerifier(config, request);
+
       const tokens = await exchangeNotionCodeForTokens(
         code,
         config.clientId,
         config.clientSecret,
-        config.redirectUri
+        config.redirectUri,
+        codeVerifier,
+        options
       );
 
+      // In token broker mode the picker only gets a sealed handle instead of the long-lived token
+      const tokenBroker = await this.createPickerTokenBroker(config, 'notion', tokens.access_token);
+
       // Use the Notion picker template
-      const htmlContent = NotionPicker.createPickerHTML(tokens, config, tokens.access_token, undefined, nonce);
+      const htmlContent = NotionPicker.createPickerHTML(
+        tokens,
+        config,
+        tokenBroker ? '' : tokens.access_token,
+        undefined,
+        nonce,
+        tokenBroker
+      );
 
-      return new Response(htmlContent, { headers: { 'Content-Type': 'text/html' } });
+      return this.createHTMLResponse(htmlContent, request);
     } catch (error) {
       return this.createErrorResponse(
         error instanceof OAuthError ? error : new OAuthError(
@@ -117,11 +194,41 @@ export class NotionOAuth extends BaseOAuth {
           'CALLBACK_ERROR',
           error
         ),
-        nonce
+        nonce,
+        request,
+        config
       );
     }
   }
 
+  /**
+   * Creates a response for the token broker route used in token broker mode
+   * Notion access tokens are long-lived and cannot be narrowed, so instead of handing
+   * them out the broker runs the picker's searches on the server.
+   * @param request The incoming broker request
+   * @param config The OAuth configuration including tokenBroker.secret
+   * @param options Optional abort signal and timeout of the provider requests
+   * @returns A JSON Response with the search results
+   */
+  public static async createTokenBrokerResponse(
+    request: Request,
+    config: NotionOAuthConfig,
+    options?: RequestOptions
+  ): Promise<Response> {
+    return this.createBrokerResponse(request, config, 'notion', async (action, accessToken, body) => {
+      if (action !== 'search') {
+        throw new OAuthError(`Unsupported token broker action: ${action}`, 'INVALID_REQUEST');
+      }
+
+      const objectType = body.filter?.value;
+      if (objectType !== 'page' && objectType !== 'database') {
+        throw new OAuthError('Search filter must select pages or databases', 'INVALID_REQUEST');
+      }
+
+      return searchNotion(accessToken, objectType, options);
+    });
+  }
+
   /**
    * Redirects the user to the Vectorize Notion connector authentication flow
    * with a one-time token for security
@@ -4,13 +4,14 @@ import {
   OAuthResponse, 
   GenericFile, 
   GenericSelection,
-  TokenError
+  TokenError,
+  SelectionDiff
 } from '../../baseOAuth/types';
 
 /**
  * Notion specific configuration options 
  */
-export interface NotionOAuthConfig extends OAuthConfig {
+export interface NotionOAuthConfig extends OAuthConfig<NotionSelectionResult> {
   clientId: string;      // Notion OAuth client ID
   clientSecret: string;  // Notion OAuth client secret
   redirectUri: string;   // Redirect URI for the OAuth flow
@@ -47,6 +48,21 @@ export interface NotionPageSelection extends GenericSelection {
   workspaceName?: string;// Name of the workspace
 }
 
+/**
+ * Result of a Notion OAuth flow, as sent by the Notion picker
+ */
+export interface NotionSelectionResult {
+  connector: 'notion';
+  selectedPages: Record<string, {
+    title: string;
+    pageId: string;
+    parentType?: string;
+  }>;
+  accessToken?: string;  // Set unless token broker mode is used
+  tokenHandle?: string;  // Set in token broker mode instead of the access token
+  changes?: SelectionDiff<{ title: string; pageId: string; parentType?: string }>; // Set by NotionOAuth.authorize
+}
+
 /**
  * Notion connector types
  */
@@ -1,5 +1,11 @@
 // notionOAuth/ui/picker.ts
 
+import { PickerTokenBroker } from '../../baseOAuth/types';
+import { createChannelScript } from '../../baseOAuth/core/channel';
+import { createTranslationScript, createTranslator } from '../../baseOAuth/ui/i18n';
+import { createEscapeScript, escapeHtml, nonceAttribute, serializeForScript } from '../../baseOAuth/utils/html';
+import { createBrandingHTML, createPageTitle, createThemeStyles, DARK_THEME_COLORS, DEFAULT_FONT_FAMILY } from '../../baseOAuth/ui/theme';
+import { ConnectMessages } from '../../baseOAuth/types';
 import { NotionOAuthConfig } from '../types';
 
 /**
@@ -13,6 +19,9 @@ export class NotionPicker {
    * @param config The OAuth configuration
    * @param accessToken The Notion access token to use for API calls
    * @param existingSelection Optional record of already selected pages
+   * @param nonce Optional nonce for Content Security Policy
+   * @param tokenBroker Optional token broker details; searches then run on the server
+   * @param channelId Optional channel id of the flow; callback pages read it from the state parameter
    * @returns HTML string for the picker UI
    */
   public static createPickerHTML(
@@ -20,27 +29,28 @@ export class NotionPicker {
     config: NotionOAuthConfig,
     accessToken: string,
     existingSelection?: Record<string, { title: string; pageId: string; parentType?: string }>,
-    nonce?: string
+    nonce?: string,
+    tokenBroker?: PickerTokenBroker,
+    channelId?: string
   ): string {
-    // Convert existing selection to JSON string for embedding in the HTML
-    const existingSelectionStr = existingSelection 
-      ? JSON.stringify(existingSelection) 
-      : '{}';
+    const translator = createTranslator(config.locale, config.messages);
+    // Strings are escaped for the markup they are inserted into
+    const t = (key: keyof ConnectMessages) => escapeHtml(translator.t(key));
     
     return `<!DOCTYPE html>
-    <html lang="en">
+    <html lang="${translator.locale}" dir="${translator.dir}">
     <head>
       <meta charset="UTF-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Select Notion Resources</title>
-      <link href="https://cdnjs.cloudflare.com/ajax/libs/inter-ui/3.19.3/inter.css" rel="stylesheet">
-      <style>
+      <title>${createPageTitle(translator.t('notionTitle'), config.theme)}</title>
+      ${config.theme?.fontFamily ? '' : '<link href="https://cdnjs.cloudflare.com/ajax/libs/inter-ui/3.19.3/inter.css" rel="stylesheet">'}
+      <style>${createThemeStyles({ fontFamily: `'Inter', ${DEFAULT_FONT_FAMILY}`, ...config.theme }, `
         body {
-          font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, sans-serif;
+          font-family: var(--vc-font-family);
           margin: 0;
           padding: 0;
-          background-color: #1f2937; /* bg-gray-800 */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: var(--vc-color-background);
+          color: var(--vc-color-text);
           line-height: 1.5;
         }
         
@@ -55,7 +65,7 @@ export class NotionPicker {
           justify-content: space-between;
           align-items: center;
           margin-bottom: 1rem;
-          border-bottom: 1px solid #374151; /* border-gray-700 */
+          border-bottom: 1px solid var(--vc-color-border);
           padding-bottom: 0.5rem;
         }
         
@@ -63,7 +73,7 @@ export class NotionPicker {
           font-size: 1.5rem;
           font-weight: 600;
           margin: 0;
-          color: #f3f4f6; /* text-gray-100 */
+          color: var(--vc-color-text);
         }
         
         .content-section {
@@ -80,15 +90,15 @@ export class NotionPicker {
         .tab-header h2 {
           font-size: 1rem;
           font-weight: 600;
-          color: #f3f4f6; /* text-gray-100 */
+          color: var(--vc-color-text);
           margin: 0;
         }
         
         .select-all-btn {
-          background-color: #4338ca; /* bg-indigo-700 */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: var(--vc-color-primary);
+          color: #ffffff;
           border: none;
-          border-radius: 0.375rem;
+          border-radius: var(--vc-radius);
           padding: 0.5rem 0.75rem;
           font-size: 0.875rem;
           cursor: pointer;
@@ -100,15 +110,15 @@ export class NotionPicker {
         
         /* Different color for deselect button */
         #deselect-all-resources {
-          background-color: #6B7280; /* bg-gray-500 */
+          background-color: var(--vc-color-surface);
         }
         
         #deselect-all-resources:hover {
-          background-color: #4B5563; /* bg-gray-600 */
+          background-color: var(--vc-color-surface-hover);
         }
         
         .select-all-btn:hover {
-          background-color: #4f46e5; /* bg-indigo-600 */
+          background-color: var(--vc-color-primary-hover);
         }
         
         .grid {
@@ -118,10 +128,10 @@ export class NotionPicker {
         }
         
         .item-card {
-          border: 1px solid #374151; /* border-gray-700 */
-          border-radius: 0.375rem;
+          border: 1px solid var(--vc-color-border);
+          border-radius: var(--vc-radius);
           padding: 0.5rem;
-          background-color: #374151; /* bg-gray-700 */
+          background-color: var(--vc-color-surface);
           cursor: pointer;
           transition: all 0.1s ease;
           display: flex;
@@ -130,21 +140,21 @@ export class NotionPicker {
         }
         
         .item-card:hover {
-          background-color: #4B5563; /* bg-gray-600 */
+          background-color: var(--vc-color-surface-hover);
         }
         
         .item-card.selected {
-          border-color: #4338ca; /* border-indigo-700 */
-          background-color: rgba(79, 70, 229, 0.3); /* More visible background */
-          box-shadow: 0 0 0 2px #4338ca; /* Add an outline */
+          border-color: var(--vc-color-primary);
+          background-color: color-mix(in srgb, var(--vc-color-primary) 30%, transparent);
+          box-shadow: 0 0 0 2px var(--vc-color-primary);
         }
         
         .item-icon {
-          margin-right: 0.5rem;
-          color: #f3f4f6; /* text-gray-100 */
-          background: rgba(79, 70, 229, 0.2); /* bg-indigo-600 with opacity */
+          margin-inline-end: 0.5rem;
+          color: var(--vc-color-text);
+          background: color-mix(in srgb, var(--vc-color-primary) 20%, transparent);
           padding: 0.35rem;
-          border-radius: 0.25rem;
+          border-radius: calc(var(--vc-radius) / 2);
           display: flex;
           align-items: center;
           justify-content: center;
@@ -164,7 +174,7 @@ export class NotionPicker {
           font-weight: 500;
           margin-bottom: 0.25rem;
           word-break: break-word;
-          color: #f3f4f6; /* text-gray-100 */
+          color: var(--vc-color-text);
           white-space: nowrap;
           overflow: hidden;
           text-overflow: ellipsis;
@@ -174,9 +184,9 @@ export class NotionPicker {
         
         .tooltip {
           position: absolute;
-          background-color: #1f2937;
-          border: 1px solid #374151;
-          color: #f3f4f6;
+          background-color: var(--vc-color-background);
+          border: 1px solid var(--vc-color-border);
+          color: var(--vc-color-text);
           padding: 5px 8px;
           border-radius: 4px;
           font-size: 0.875rem;
@@ -186,14 +196,14 @@ export class NotionPicker {
           box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);
           word-wrap: break-word;
           top: 100%;
-          left: 0;
+          inset-inline-start: 0;
           margin-top: 5px;
           display: none;
         }
         
         .selected-list {
           margin-top: 1rem;
-          border-top: 1px solid #374151; /* border-gray-700 */
+          border-top: 1px solid var(--vc-color-border);
           padding-top: 1rem;
         }
         
@@ -202,7 +212,13 @@ export class NotionPicker {
           font-weight: 600;
           margin-top: 0;
           margin-bottom: 1rem;
-          color: #f3f4f6; /* text-gray-100 */
+          color: var(--vc-color-text);
+        }
+        
+        .selection-count {
+          font-size: 0.875rem;
+          color: var(--vc-color-muted-text);
+          margin: -0.5rem 0 0.75rem;
         }
         
         .selected-item {
@@ -210,27 +226,27 @@ export class NotionPicker {
           justify-content: space-between;
           align-items: center;
           padding: 0.5rem 0.75rem;
-          background-color: #374151; /* bg-gray-700 */
-          border: 1px solid #4B5563; /* border-gray-600 */
-          border-radius: 0.375rem;
+          background-color: var(--vc-color-surface);
+          border: 1px solid var(--vc-color-surface-hover);
+          border-radius: var(--vc-radius);
           margin-bottom: 0.5rem;
         }
         
         .remove-btn {
           background: none;
           border: none;
-          color: rgba(243, 244, 246, 0.7); /* text-gray-100 with opacity */
+          color: var(--vc-color-muted-text);
           cursor: pointer;
           padding: 0.25rem;
-          border-radius: 0.25rem;
+          border-radius: calc(var(--vc-radius) / 2);
           display: flex;
           align-items: center;
           justify-content: center;
         }
         
         .remove-btn:hover {
-          background-color: rgba(243, 244, 246, 0.1); /* text-gray-100 with more opacity */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: color-mix(in srgb, var(--vc-color-text) 10%, transparent);
+          color: var(--vc-color-text);
         }
         
         .actions {
@@ -239,11 +255,11 @@ export class NotionPicker {
         }
         
         .cancel-btn {
-          background-color: #4B5563; /* bg-gray-600 */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: var(--vc-color-surface-hover);
+          color: var(--vc-color-text);
           border: none;
           padding: 0.6rem 1rem;
-          border-radius: 0.375rem;
+          border-radius: var(--vc-radius);
           font-weight: 500;
           cursor: pointer;
           font-size: 0.875rem;
@@ -251,15 +267,15 @@ export class NotionPicker {
         }
         
         .cancel-btn:hover {
-          background-color: #6B7280; /* bg-gray-500 */
+          background-color: var(--vc-color-border);
         }
         
         .submit-btn {
-          background-color: #4338ca; /* bg-indigo-700 */
+          background-color: var(--vc-color-accent);
           color: white;
           border: none;
           padding: 0.6rem 1rem;
-          border-radius: 0.375rem;
+          border-radius: var(--vc-radius);
           font-weight: 500;
           cursor: pointer;
           font-size: 0.875rem;
@@ -267,20 +283,20 @@ export class NotionPicker {
         }
         
         .submit-btn:hover {
-          background-color: #4f46e5; /* bg-indigo-600 */
+          background-color: var(--vc-color-accent-hover);
         }
         
         .submit-btn:disabled {
-          background-color: #6B7280; /* Lighter gray */
+          background-color: var(--vc-color-surface-hover);
           opacity: 0.5;
           cursor: not-allowed;
           color: rgba(255, 255, 255, 0.5);
-          border: 1px solid #4B5563;
+          border: 1px solid var(--vc-color-border);
         }
         
         .empty-message {
           text-align: center;
-          color: rgba(243, 244, 246, 0.5); /* text-gray-100 with opacity */
+          color: var(--vc-color-muted-text);
           padding: 1rem 0;
           font-size: 0.875rem;
         }
@@ -290,12 +306,12 @@ export class NotionPicker {
           display: flex;
           align-items: center;
           justify-content: center;
-          color: rgba(243, 244, 246, 0.5); /* text-gray-100 with opacity */
+          color: var(--vc-color-muted-text);
           width: 22px;
           height: 22px;
-          border-radius: 0.25rem;
+          border-radius: calc(var(--vc-radius) / 2);
           transition: all 0.1s ease;
-          margin-left: auto;
+          margin-inline-start: auto;
           visibility: hidden; /* Hide by default, show on hover */
         }
         
@@ -304,8 +320,8 @@ export class NotionPicker {
         }
         
         .notion-link:hover {
-          background-color: rgba(243, 244, 246, 0.1); /* text-gray-100 with opacity */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: color-mix(in srgb, var(--vc-color-text) 10%, transparent);
+          color: var(--vc-color-text);
         }
         
         .loading-overlay {
@@ -314,7 +330,7 @@ export class NotionPicker {
           left: 0;
           width: 100%;
           height: 100%;
-          background-color: #1f2937;
+          background-color: var(--vc-color-background);
           display: flex;
           justify-content: center;
           align-items: center;
@@ -326,7 +342,11 @@ export class NotionPicker {
           flex-direction: column;
           align-items: center;
           gap: 1rem;
-          color: #f3f4f6;
+          color: var(--vc-color-text);
+        }
+        
+        .loading-spinner circle {
+          stroke: var(--vc-color-primary);
         }
         
         .loading-spinner svg {
@@ -339,10 +359,10 @@ export class NotionPicker {
         }
         
         .action-btn {
-          background-color: #4338ca; /* bg-indigo-700 */
-          color: #f3f4f6; /* text-gray-100 */
+          background-color: var(--vc-color-primary);
+          color: #ffffff;
           border: none;
-          border-radius: 0.375rem;
+          border-radius: var(--vc-radius);
           padding: 0.5rem 0.75rem;
           font-size: 0.875rem;
           cursor: pointer;
@@ -353,71 +373,104 @@ export class NotionPicker {
         }
         
         .action-btn:hover {
-          background-color: #4f46e5; /* bg-indigo-600 */
+          background-color: var(--vc-color-primary-hover);
+        }
+        
+        .item-card:focus-visible,
+        button:focus-visible,
+        a:focus-visible {
+          outline: 2px solid var(--vc-color-primary);
+          outline-offset: 2px;
+        }
+        
+        .sr-only {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          padding: 0;
+          margin: -1px;
+          overflow: hidden;
+          clip: rect(0, 0, 0, 0);
+          white-space: nowrap;
+          border: 0;
         }
         
         @keyframes spin {
           0% { transform: rotate(0deg); }
           100% { transform: rotate(360deg); }
         }
-      </style>
+      `, DARK_THEME_COLORS)}</style>
     </head>
     <body>
       <div id="loading-overlay" class="loading-overlay">
-        <div class="loading-spinner">
-          <svg width="50" height="50" viewBox="0 0 50 50">
-            <circle cx="25" cy="25" r="20" fill="none" stroke="#4338ca" stroke-width="5" stroke-dasharray="30 10"></circle>
+        <div class="loading-spinner" role="status">
+          <svg width="50" height="50" viewBox="0 0 50 50" aria-hidden="true">
+            <circle cx="25" cy="25" r="20" fill="none" stroke-width="5" stroke-dasharray="30 10"></circle>
           </svg>
-          <p>Loading resources...</p>
+          <p>${t('notionLoading')}</p>
         </div>
       </div>
       
       <div class="container">
+        ${createBrandingHTML(config.theme)}
         <div class="top-bar">
-          <h2>Select Notion Resources</h2>
+          <h2>${t('notionTitle')}</h2>
           <div class="actions">
-            <button id="cancel-button" class="cancel-btn">Cancel</button>
-            <button id="submit-button" class="submit-btn" disabled>Save Selection</button>
+            <button id="cancel-button" class="cancel-btn">${t('notionCancel')}</button>
+            <button id="submit-button" class="submit-btn" disabled>${t('notionSaveSelection')}</button>
           </div>
         </div>
         
         <div class="content-section">
           <div class="tab-header">
-            <h2>Available Resources</h2>
+            <h2 id="available-resources-heading">${t('notionAvailableResources')}</h2>
             <div class="button-group">
               <button class="action-btn" id="select-all-resources">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                   <path d="M20 6L9 17l-5-5"></path>
                 </svg>
-                Select All
+                ${t('notionSelectAll')}
               </button>
               <button class="action-btn" id="deselect-all-resources">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                   <path d="M19 12H5"></path>
                 </svg>
-                Deselect All
+                ${t('notionDeselectAll')}
               </button>
             </div>
           </div>
           
-          <div class="grid" id="resources-grid">
+          <div
+            class="grid"
+            id="resources-grid"
+            role="listbox"
+            aria-multiselectable="true"
+            aria-labelledby="available-resources-heading"
+          >
             <!-- Resources will be loaded here -->
           </div>
         </div>
         
         <div class="selected-list">
-          <h2>Selected Items</h2>
-          <div id="selected-items-container">
-            <div class="empty-message">No items selected</div>
+          <h2 id="selected-items-heading">${t('notionSelectedItems')}</h2>
+          <p class="selection-count" id="selection-count" aria-hidden="true"></p>
+          <div id="selection-status" class="sr-only" role="status" aria-live="polite"></div>
+          <div id="selected-items-container" role="list" aria-labelledby="selected-items-heading">
+            <div class="empty-message">${t('notionNoItemsSelected')}</div>
           </div>
         </div>
       </div>
       
-      <script${nonce ? ` nonce="${nonce}"` : ''}>
+      <script${nonceAttribute(nonce)}>
+        ${createChannelScript(channelId)}
+        ${createEscapeScript()}
+        ${createTranslationScript(translator)}
+
         // Store selected items
-        const selectedItems = ${existingSelectionStr};
+        const selectedItems = ${serializeForScript(existingSelection || {})};
         let dataLoaded = false;
-        const accessToken = "${accessToken}";
+        const accessToken = ${serializeForScript(tokenBroker ? null : accessToken)};
+        const tokenBroker = ${serializeForScript(tokenBroker || null)};
         
         // Initialize the UI when the page loads
         document.addEventListener('DOMContentLoaded', function() {
@@ -433,17 +486,6 @@ export class NotionPicker {
           }, 5000);
         });
         
-        // Helper function to escape HTML
-        function escapeHtml(unsafe) {
-          if (!unsafe) return '';
-          return unsafe
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;")
-            .replace(/"/g, "&quot;")
-            .replace(/'/g, "&#039;");
-        }
-        
         // Fetch resources from Notion API
         async function fetchNotionResources() {
           try {
@@ -462,16 +504,31 @@ export class NotionPicker {
             // Mark data as loaded and hide loading screen
             dataLoaded = true;
             hideLoadingScreen();
+            sendFlowMessage('progress', { stage: 'picker-ready' });
           } catch (error) {
             console.error('Error fetching Notion resources:', error);
-            showError('Failed to load resources from Notion. Please try again.');
+            showError(translate('notionLoadError'));
             hideLoadingScreen();
           }
         }
         
-        // Fetch databases from Notion
-        async function fetchDatabases(token) {
-          const response = await fetch('https://api.notion.com/v1/search', {
+        // Search Notion directly, or through the token broker so the token stays on the server
+        function searchNotion(token, objectType) {
+          const filter = {
+            value: objectType,
+            property: 'object'
+          };
+
+          if (tokenBroker) {
+            return fetch(tokenBroker.endpoint, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              credentials: 'same-origin',
+              body: JSON.stringify({ action: 'search', handle: tokenBroker.handle, filter })
+            });
+          }
+
+          return fetch('https://api.notion.com/v1/search', {
             method: 'POST',
             headers: {
               'Authorization': \`Bearer \${token}\`,
@@ -479,13 +536,15 @@ export class NotionPicker {
               'Content-Type': 'application/json'
             },
             body: JSON.stringify({
-              filter: {
-                value: 'database',
-                property: 'object'
-              },
+              filter,
               page_size: 100
             })
           });
+        }
+        
+        // Fetch databases from Notion
+        async function fetchDatabases(token) {
+          const response = await searchNotion(token, 'database');
           
           if (!response.ok) {
             throw new Error(\`Failed to fetch databases: \${response.status}\`);
@@ -495,7 +554,7 @@ export class NotionPicker {
           
           return data.results.map(db => ({
             id: db.id,
-            name: db.title?.[0]?.plain_text || 'Untitled Database',
+            name: db.title?.[0]?.plain_text || translate('notionUntitledDatabase'),
             type: 'database',
             url: db.url || \`https://notion.so/\${db.id.replace(/-/g, '')}\`
           }));
@@ -503,21 +562,7 @@ export class NotionPicker {
         
         // Fetch pages from Notion
         async function fetchPages(token) {
-          const response = await fetch('https://api.notion.com/v1/search', {
-            method: 'POST',
-            headers: {
-              'Authorization': \`Bearer \${token}\`,
-              'Notion-Version': '2022-06-28',
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              filter: {
-                value: 'page',
-                property: 'object'
-              },
-              page_size: 100
-            })
-          });
+          const response = await searchNotion(token, 'page');
           
           if (!response.ok) {
             throw new Error(\`Failed to fetch pages: \${response.status}\`);
@@ -527,7 +572,7 @@ export class NotionPicker {
           
           return data.results.map(page => ({
             id: page.id,
-            title: getPageTitle(page) || 'Untitled Page',
+            title: getPageTitle(page) || translate('notionUntitledPage'),
             type: 'page',
             url: page.url || \`https://notion.so/\${page.id.replace(/-/g, '')}\`
           }));
@@ -570,7 +615,7 @@ export class NotionPicker {
           
           // Handle empty case
           if (databases.length === 0 && pages.length === 0) {
-            grid.innerHTML = '<div class="empty-message">No resources available</div>';
+            grid.innerHTML = '<div class="empty-message">' + escapeHtml(translate('notionNoResources')) + '</div>';
             return;
           }
           
@@ -579,12 +624,15 @@ export class NotionPicker {
             const isSelected = selectedItems[db.id] !== undefined;
             const card = document.createElement('div');
             card.className = \`item-card\${isSelected ? ' selected' : ''}\`;
+            card.setAttribute('role', 'option');
+            card.setAttribute('aria-selected', String(isSelected));
+            card.tabIndex = -1;
             card.setAttribute('data-id', db.id);
             card.setAttribute('data-name', db.name);
             card.setAttribute('data-type', 'database');
             
             card.innerHTML = \`
-              <div class="item-icon">
+              <div class="item-icon" aria-hidden="true">
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                   <path d="M3 3h18v18H3z"></path>
                   <path d="M3 9h18"></path>
@@ -595,8 +643,8 @@ export class NotionPicker {
               <div class="item-details">
                 <div class="item-name" title="\${escapeHtml(db.name)}">\${escapeHtml(db.name)}</div>
               </div>
-              <a href="\${escapeHtml(db.url)}" target="_blank" class="notion-link" title="Open in Notion">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <a href="\${escapeHtml(safeUrl(db.url))}" target="_blank" tabindex="-1" class="notion-link" title="\${escapeHtml(translate('notionOpenInNotion'))}">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                   <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path>
                   <polyline points="15 3 21 3 21 9"></polyline>
                   <line x1="10" y1="14" x2="21" y2="3"></line>
@@ -625,12 +673,15 @@ export class NotionPicker {
             const isSelected = selectedItems[page.id] !== undefined;
             const card = document.createElement('div');
             card.className = \`item-card\${isSelected ? ' selected' : ''}\`;
+            card.setAttribute('role', 'option');
+            card.setAttribute('aria-selected', String(isSelected));
+            card.tabIndex = -1;
             card.setAttribute('data-id', page.id);
             card.setAttribute('data-name', page.title);
             card.setAttribute('data-type', 'page');
             
             card.innerHTML = \`
-              <div class="item-icon">
+              <div class="item-icon" aria-hidden="true">
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                   <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
                   <polyline points="14 2 14 8 20 8"></polyline>
@@ -642,8 +693,8 @@ export class NotionPicker {
               <div class="item-details">
                 <div class="item-name" title="\${escapeHtml(page.title)}">\${escapeHtml(page.title)}</div>
               </div>
-              <a href="\${escapeHtml(page.url)}" target="_blank" class="notion-link" title="Open in Notion">
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <a href="\${escapeHtml(safeUrl(page.url))}" target="_blank" tabindex="-1" class="notion-link" title="\${escapeHtml(translate('notionOpenInNotion'))}">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                   <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path>
                   <polyline points="15 3 21 3 21 9"></polyline>
                   <line x1="10" y1="14" x2="21" y2="3"></line>
@@ -666,8 +717,80 @@ export class NotionPicker {
             
             grid.appendChild(card);
           });
+
+          // The first card takes part in the tab order; arrow keys move between the cards
+          const firstCard = grid.querySelector('.item-card');
+          if (firstCard) {
+            firstCard.tabIndex = 0;
+          }
+        }
+
+        // Marks a card as selected or not, for sighted and screen reader users alike
+        function setCardSelected(card, selected) {
+          card.classList.toggle('selected', selected);
+          card.setAttribute('aria-selected', String(selected));
+        }
+
+        // Moves focus to a card of the grid and makes it the card in the tab order
+        function focusCard(index) {
+          const cards = Array.from(document.querySelectorAll('#resources-grid .item-card'));
+          if (!cards.length) {
+            return;
+          }
+
+          const target = cards[Math.max(0, Math.min(index, cards.length - 1))];
+          cards.forEach(card => card.tabIndex = card === target ? 0 : -1);
+          target.focus();
+        }
+
+        // Number of cards per row of the grid, for moving up and down
+        function cardsPerRow(cards) {
+          const top = cards[0].offsetTop;
+          const index = cards.findIndex(card => card.offsetTop !== top);
+          return index === -1 ? cards.length : index;
+        }
+
+        // Arrow keys, Home and End move between the cards; Space and Enter select or deselect the focused one
+        function handleGridKeydown(e) {
+          const card = e.target.closest('.item-card');
+          if (!card) {
+            return;
+          }
+
+          const cards = Array.from(document.querySelectorAll('#resources-grid .item-card'));
+          const index = cards.indexOf(card);
+          const rtl = document.documentElement.dir === 'rtl';
+
+          switch (e.key) {
+            case 'ArrowRight':
+              focusCard(rtl ? index - 1 : index + 1);
+              break;
+            case 'ArrowLeft':
+              focusCard(rtl ? index + 1 : index - 1);
+              break;
+            case 'ArrowDown':
+              focusCard(index + cardsPerRow(cards));
+              break;
+            case 'ArrowUp':
+              focusCard(index - cardsPerRow(cards));
+              break;
+            case 'Home':
+              focusCard(0);
+              break;
+            case 'End':
+              focusCard(cards.length - 1);
+              break;
+            case ' ':
+            case 'Enter':
+              toggleItemSelection(card);
+              break;
+            default:
+              return;
+          }
+          e.preventDefault();
         }
         
+
         // Toggle selection state of an item
         function toggleItemSelection(card) {
           const id = card.getAttribute('data-id');
@@ -677,7 +800,7 @@ export class NotionPicker {
           if (selectedItems[id]) {
             // Item is currently selected, so deselect it
             delete selectedItems[id];
-            card.classList.remove('selected');
+            setCardSelected(card, false);
           } else {
             // Item is not selected, so select it
             selectedItems[id] = {
@@ -686,7 +809,7 @@ export class NotionPicker {
               type,
               pageId: id
             };
-            card.classList.add('selected');
+            setCardSelected(card, true);
           }
           
           // Update the UI
@@ -699,18 +822,23 @@ export class NotionPicker {
           const submitButton = document.getElementById('submit-button');
           const itemCount = Object.keys(selectedItems).length;
           
+          document.getElementById('selection-count').textContent = itemCount
+            ? translate('notionItemsSelected', { count: itemCount })
+            : '';
+          document.getElementById('selection-status').textContent = translate('notionItemsSelected', { count: itemCount });
+          
           if (itemCount === 0) {
-            container.innerHTML = '<div class="empty-message">No items selected</div>';
+            container.innerHTML = '<div class="empty-message">' + escapeHtml(translate('notionNoItemsSelected')) + '</div>';
             submitButton.disabled = true;
           } else {
             let html = '';
             Object.values(selectedItems).forEach(item => {
               const name = item.title || item.name;
               html += \`
-                <div class="selected-item" data-id="\${item.id}">
+                <div class="selected-item" role="listitem" data-id="\${escapeHtml(item.id)}">
                   <div class="item-name" title="\${escapeHtml(name)}">\${escapeHtml(name)}</div>
-                  <button class="remove-btn" data-item-id="\${item.id}">
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <button class="remove-btn" data-item-id="\${escapeHtml(item.id)}" aria-label="\${escapeHtml(translate('notionRemoveItem', { name }))}">
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
                       <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
                     </svg>
                   </button>
@@ -721,10 +849,11 @@ export class NotionPicker {
             submitButton.disabled = false;
             
             // Add event listeners to remove buttons
-            container.querySelectorAll('.remove-btn').forEach(btn => {
+            container.querySelectorAll('.remove-btn').forEach((btn, index) => {
               btn.addEventListener('click', function() {
                 const itemId = this.getAttribute('data-item-id');
                 removeItem(itemId);
+                focusAfterRemoval(index);
               });
             });
           }
@@ -735,13 +864,26 @@ export class NotionPicker {
           delete selectedItems[id];
           
           // Also update the card in the grid if present
-          const card = document.querySelector(\`.item-card[data-id="\${id}"]\`);
+          const card = document.querySelector(\`.item-card[data-id="\${CSS.escape(id)}"]\`);
           if (card) {
-            card.classList.remove('selected');
+            setCardSelected(card, false);
           }
           
           updateSelectedItemsList();
         }
+
+        // Returns focus to the remove button that took the removed one's place,
+        // or to the grid once no items are left
+        function focusAfterRemoval(index) {
+          const buttons = document.querySelectorAll('#selected-items-container .remove-btn');
+          if (buttons.length) {
+            buttons[Math.min(index, buttons.length - 1)].focus();
+            return;
+          }
+
+          const activeCard = document.querySelector('#resources-grid .item-card[tabindex="0"]');
+          (activeCard || document.getElementById('selected-items-heading')).focus();
+        }
         
         // Hide the loading screen
         function hideLoadingScreen() {
@@ -765,6 +907,7 @@ export class NotionPicker {
             errorEl = document.createElement('div');
             errorEl.id = 'error-container';
             errorEl.className = 'error';
+            errorEl.setAttribute('role', 'alert');
             topBar.insertAdjacentElement('afterend', errorEl);
           }
           
@@ -777,6 +920,15 @@ export class NotionPicker {
         
         // Set up UI event handlers
         function setupEventHandlers() {
+          document.getElementById('resources-grid').addEventListener('keydown', handleGridKeydown);
+
+          // Keep the focused card in the tab order when it is focused by mouse
+          document.getElementById('resources-grid').addEventListener('focusin', function(e) {
+            if (e.target.classList.contains('item-card')) {
+              this.querySelectorAll('.item-card').forEach(card => card.tabIndex = card === e.target ? 0 : -1);
+            }
+          });
+
           // Select All button
           document.getElementById('select-all-resources').addEventListener('click', function() {
             document.querySelectorAll('#resources-grid .item-card').forEach(card => {
@@ -791,7 +943,7 @@ export class NotionPicker {
                   type,
                   pageId: id
                 };
-                card.classList.add('selected');
+                setCardSelected(card, true);
               }
             });
             
@@ -803,7 +955,7 @@ export class NotionPicker {
             document.querySelectorAll('#resources-grid .item-card').forEach(card => {
               const id = card.getAttribute('data-id');
               delete selectedItems[id];
-              card.classList.remove('selected');
+              setCardSelected(card, false);
             });
             
             updateSelectedItemsList();
@@ -811,15 +963,9 @@ export class NotionPicker {
           
           // Cancel button
           document.getElementById('cancel-button').addEventListener('click', function() {
-            // Send cancel message to parent window
-            window.parent.postMessage({
-              type: 'notion-selection-cancelled'
-            }, '*');
-            
-            // Close the window if possible
-            if (window.opener) {
-              window.close();
-            }
+            // Let the page that started the flow know the user gave up
+            sendFlowMessage('cancel');
+            window.close();
           });
           
           // Submit button
@@ -828,11 +974,11 @@ export class NotionPicker {
               return;
             }
             
-            // Format the selected items for the response
-            const response = {
-              selectedPages: {},
-              accessToken
-            };
+            // Format the selected items for the response; in token broker mode
+            // the handle stands in for the access token
+            const response = tokenBroker
+              ? { connector: 'notion', selectedPages: {}, tokenHandle: tokenBroker.handle }
+              : { connector: 'notion', selectedPages: {}, accessToken };
             
             // Add each selected item to the response
             Object.values(selectedItems).forEach(item => {
@@ -843,16 +989,9 @@ export class NotionPicker {
               };
             });
             
-            // Send the result back to the parent window
-            window.parent.postMessage({
-              type: 'notion-selection-complete',
-              payload: response
-            }, '*');
-            
-            // Close the window if possible
-            if (window.opener) {
-              setTimeout(() => window.close(), 500);
-            }
+            // Send the result back to the page that started the flow
+            sendFlowMessage('success', response);
+            setTimeout(() => window.close(), 500);
           });
         }
       </script>
@@ -1,6 +1,7 @@
 // notionOAuth/utils/token.ts
 
-import { OAuthError, TokenError } from '../../baseOAuth/types';
+import { OAuthError, RequestOptions, TokenError } from '../../baseOAuth/types';
+import { sendRequest } from '../../baseOAuth/utils/http';
 
 /**
  * Exchange an authorization code for Notion OAuth tokens
@@ -9,13 +10,17 @@ import { OAuthError, TokenError } from '../../baseOAuth/types';
  * @param clientId The OAuth client ID
  * @param clientSecret The OAuth client secret
  * @param redirectUri The redirect URI used in the OAuth flow
+ * @param codeVerifier Optional PKCE code verifier of the flow
+ * @param options Optional abort signal and timeout
  * @returns Promise resolving to the Notion OAuth tokens
  */
 export async function exchangeNotionCodeForTokens(
   code: string,
   clientId: string,
   clientSecret: string,
-  redirectUri: string
+  redirectUri: string,
+  codeVerifier?: string,
+  options: RequestOptions = {}
 ): Promise<{
   access_token: string;
   token_type: string;
@@ -25,7 +30,7 @@ export async function exchangeNotionCodeForTokens(
   bot_id: string;
 }> {
   try {
-    const response = await fetch('https://api.notion.com/v1/oauth/token', {
+    const response = await sendRequest('https://api.notion.com/v1/oauth/token', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -34,9 +39,10 @@ export async function exchangeNotionCodeForTokens(
       body: JSON.stringify({
         grant_type: 'authorization_code',
         code,
-        redirect_uri: redirectUri
+        redirect_uri: redirectUri,
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {})
       })
-    });
+    }, options);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -71,12 +77,14 @@ export async function exchangeNotionCodeForTokens(
  * @param accessToken Current Notion access token
  * @param clientId The OAuth client ID (for potential future token refresh)
  * @param clientSecret The OAuth client secret (for potential future token refresh)
+ * @param options Optional abort signal and timeout
  * @returns Promise resolving to the validated token information
  */
 export async function refreshNotionToken(
   accessToken: string,
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  options: RequestOptions = {}
 ): Promise<{
   access_token: string;
   workspace_id: string;
@@ -86,13 +94,13 @@ export async function refreshNotionToken(
 }> {
   try {
     // Verify the token by making a request to the Notion API
-    const response = await fetch('https://api.notion.com/v1/users/me', {
+    const response = await sendRequest('https://api.notion.com/v1/users/me', {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Notion-Version': '2022-06-28'
       }
-    });
+    }, options);
 
     if (!response.ok) {
       throw new TokenError(
@@ -104,7 +112,7 @@ export async function refreshNotionToken(
     const userData = await response.json();
     
     // Get basic workspace info
-    const workspaceResponse = await fetch('https://api.notion.com/v1/search', {
+    const workspaceResponse = await sendRequest('https://api.notion.com/v1/search', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -114,7 +122,7 @@ export async function refreshNotionToken(
       body: JSON.stringify({
         page_size: 1 // Just need to make a valid API call
       })
-    });
+    }, { ...options, idempotent: true });
     
     if (!workspaceResponse.ok) {
       throw new TokenError(
@@ -143,4 +151,110 @@ export async function refreshNotionToken(
       error
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Searches the pages or databases shared with a Notion integration
+ *
+ * @param accessToken Notion access token
+ * @param objectType Type of object to search for
+ * @param options Optional abort signal and timeout
+ * @returns Promise resolving to the Notion search response
+ */
+export async function searchNotion(
+  accessToken: string,
+  objectType: 'page' | 'database',
+  options: RequestOptions = {}
+): Promise<{ results: any[]; has_more: boolean; next_cursor: string | null }> {
+  const response = await sendRequest('https://api.notion.com/v1/search', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Notion-Version': '2022-06-28',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      filter: {
+        value: objectType,
+        property: 'object'
+      },
+      page_size: 100
+    })
+  }, { ...options, idempotent: true });
+
+  if (!response.ok) {
+    throw new TokenError(
+      `Failed to search Notion: ${response.status} ${response.statusText}`,
+      { status: response.status }
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Whether a failed revocation response says the token itself is no longer valid
+ * The route signs in with the client credentials, so a 401 on its own may also
+ * mean the client ID or secret is wrong.
+ * @param status Status of the response
+ * @param errorData Parsed error body of the response
+ * @returns True if the token is already revoked
+ */
+function isInvalidTokenError(status: number, errorData: Record<string, any>): boolean {
+  if (status !== 400 && status !== 401) {
+    return false;
+  }
+
+  const code = errorData.error || errorData.code;
+  return code === 'invalid_grant' || (code === 'unauthorized' && /token/i.test(errorData.message || ''));
+}
+
+/**
+ * Revokes a Notion access token, removing the integration's access to the workspace
+ * Tokens Notion reports as invalid are treated as already revoked; other errors,
+ * including rejected client credentials, are thrown.
+ *
+ * @param accessToken Notion access token
+ * @param clientId The OAuth client ID
+ * @param clientSecret The OAuth client secret
+ * @param options Optional abort signal and timeout
+ * @returns Promise that resolves once the token is revoked
+ */
+export async function revokeNotionToken(
+  accessToken: string,
+  clientId: string,
+  clientSecret: string,
+  options: RequestOptions = {}
+): Promise<void> {
+  try {
+    const response = await sendRequest('https://api.notion.com/v1/oauth/revoke', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        'Notion-Version': '2022-06-28',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token: accessToken })
+    }, { ...options, idempotent: true });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (isInvalidTokenError(response.status, errorData)) {
+        return;
+      }
+      throw new TokenError(
+        `Token revocation failed: ${errorData.message || errorData.error || response.statusText}`,
+        errorData
+      );
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      throw error;
+    }
+
+    throw new TokenError(
+      error instanceof Error ? error.message : 'Failed to revoke Notion token',
+      error
+    );
+  }
+}
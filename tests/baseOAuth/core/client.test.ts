@@ -0,0 +1,312 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VectorizeClient } from '../../../src/baseOAuth/core/client';
+import { VectorizeAPIError } from '../../../src/baseOAuth/types';
+
+/**
+ * Creates a client whose requests are answered with the given JSON bodies in turn
+ */
+function clientAnswering(...bodies: unknown[]) {
+  const fetchStub = vi.fn<typeof fetch>();
+  bodies.forEach(body => {
+    fetchStub.mockResolvedValueOnce(new Response(
+      typeof body === 'string' ? body : JSON.stringify(body),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ));
+  });
+
+  const client = new VectorizeClient({
+    authorization: 'token',
+    organizationId: 'org/1',
+    baseUrl: 'https://api.test/v1',
+    fetch: fetchStub,
+    retry: false
+  });
+
+  return { client, fetchStub };
+}
+
+/**
+ * Creates a client whose user requests are answered by the given handler
+ */
+function clientHandling(handler: (body: Record<string, any>, signal?: AbortSignal | null) => Promise<Response>) {
+  const fetchStub = vi.fn<typeof fetch>((_url, init) => handler(JSON.parse(String(init?.body)), init?.signal));
+  const client = new VectorizeClient({
+    authorization: 'token',
+    organizationId: 'org',
+    baseUrl: 'https://api.test/v1',
+    fetch: fetchStub,
+    retry: false
+  });
+
+  return { client, fetchStub };
+}
+
+/**
+ * Resolves after the given delay
+ */
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Collects the users of an async iterator
+ */
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('VectorizeClient', () => {
+  it('encodes organization and connector ids in the path', async () => {
+    const { client, fetchStub } = clientAnswering({ users: [] });
+
+    await client.users.listPage('connector/../1');
+
+    expect(fetchStub.mock.calls[0][0]).toBe('https://api.test/v1/org/org%2F1/connectors/sources/connector%2F..%2F1/users/');
+  });
+
+  describe('connectors.list', () => {
+    it('returns the connectors of the response', async () => {
+      const { client } = clientAnswering({ sourceConnectors: [{ id: 'c1', type: 'GOOGLE_DRIVE' }] });
+
+      expect(await client.connectors.list()).toEqual([{ id: 'c1', type: 'GOOGLE_DRIVE' }]);
+    });
+
+    it('rejects a response without sourceConnectors', async () => {
+      const { client } = clientAnswering({ connectors: [] });
+
+      await expect(client.connectors.list()).rejects.toMatchObject({
+        name: 'VectorizeAPIError',
+        code: 'INVALID_RESPONSE'
+      });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const { client } = clientAnswering('<html>Bad gateway</html>');
+
+      const error = await client.connectors.list().catch(error => error);
+
+      expect(error).toBeInstanceOf(VectorizeAPIError);
+      expect(error.code).toBe('INVALID_RESPONSE');
+      expect(error.rawBody).toBe('<html>Bad gateway</html>');
+    });
+  });
+
+  describe('connectors.get', () => {
+    it('returns the connector of the response', async () => {
+      const { client } = clientAnswering({ id: 'c1', name: 'Drive', type: 'GOOGLE_DRIVE' });
+
+      expect(await client.connectors.get('c1')).toEqual({ id: 'c1', name: 'Drive', type: 'GOOGLE_DRIVE' });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const { client } = clientAnswering('');
+
+      await expect(client.connectors.get('c1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE', rawBody: '' });
+    });
+
+    it('rejects a response without a connector id', async () => {
+      const { client } = clientAnswering({ data: { id: 'c1' } });
+
+      await expect(client.connectors.get('c1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('connectors.update', () => {
+    it('rejects a response without the updated connector', async () => {
+      const { client } = clientAnswering({ data: {} });
+
+      await expect(client.connectors.update('c1', { name: 'Drive' })).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('users.listPage', () => {
+    it('rejects a response without users', async () => {
+      const { client } = clientAnswering({ nextCursor: 'next' });
+
+      await expect(client.users.listPage('c1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+
+    it('rejects a next cursor that is not a string', async () => {
+      const { client } = clientAnswering({ users: [], nextCursor: 42 });
+
+      await expect(client.users.listPage('c1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('users.get', () => {
+    it('returns the user of the response', async () => {
+      const { client } = clientAnswering({ userId: 'u1', selectedFiles: {} });
+
+      expect(await client.users.get('c1', 'u1')).toEqual({ userId: 'u1', selectedFiles: {} });
+    });
+
+    it('rejects an HTML body', async () => {
+      const { client } = clientAnswering('<html>Bad gateway</html>');
+
+      const error = await client.users.get('c1', 'u1').catch(error => error);
+
+      expect(error).toBeInstanceOf(VectorizeAPIError);
+      expect(error.code).toBe('INVALID_RESPONSE');
+    });
+
+    it('rejects a response without a user id', async () => {
+      const { client } = clientAnswering({ user: { userId: 'u1' } });
+
+      await expect(client.users.get('c1', 'u1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('tokens.oneTime', () => {
+    it('returns the token of the response', async () => {
+      const { client } = clientAnswering({ token: 'one-time', expires_at: 1, ttl: 60 });
+
+      expect(await client.tokens.oneTime('u1', 'c1')).toEqual({ token: 'one-time', expires_at: 1, ttl: 60 });
+    });
+
+    it('rejects a response without a token', async () => {
+      const { client } = clientAnswering({ error: 'nope' });
+
+      await expect(client.tokens.oneTime('u1', 'c1')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('users.list', () => {
+    it('follows the cursors until the last page', async () => {
+      const { client, fetchStub } = clientAnswering(
+        { users: [{ userId: 'a' }], nextCursor: 'page-2' },
+        { users: [{ userId: 'b' }], nextCursor: null }
+      );
+
+      expect(await collect(client.users.list('c1'))).toEqual([{ userId: 'a' }, { userId: 'b' }]);
+      expect(fetchStub.mock.calls[1][0]).toContain('cursor=page-2');
+    });
+
+    it('rejects a page without users instead of ending silently', async () => {
+      const { client } = clientAnswering({ users: [{ userId: 'a' }], nextCursor: 'page-2' }, {});
+
+      await expect(collect(client.users.list('c1'))).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+
+    it('rejects a cursor that was already visited instead of looping', async () => {
+      const { client, fetchStub } = clientAnswering(
+        { users: [{ userId: 'a' }], nextCursor: 'page-2' },
+        { users: [{ userId: 'b' }], nextCursor: 'page-2' }
+      );
+
+      await expect(collect(client.users.list('c1'))).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('users.bulk', () => {
+    it('keeps no more requests in flight than the concurrency allows', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const { client, fetchStub } = clientHandling(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+        return new Response(null, { status: 200 });
+      });
+      const operations = Array.from({ length: 7 }, (_, index) => ({ userId: `u${index}`, action: 'add' as const }));
+
+      const report = await client.users.bulk('c1', operations, { concurrency: 2 });
+
+      expect(maxInFlight).toBe(2);
+      expect(fetchStub).toHaveBeenCalledTimes(7);
+      expect(report.succeeded).toBe(7);
+    });
+
+    it('reports a result per operation, ordered by position', async () => {
+      const { client } = clientHandling(async body => body.userId === 'bad'
+        ? new Response(JSON.stringify({ error: 'Conflict' }), { status: 409 })
+        : new Response(null, { status: 201 }));
+
+      const report = await client.users.bulk('c1', [
+        { userId: 'a', action: 'add' },
+        { userId: 'bad', action: 'add' },
+        { userId: 'c', action: 'invalid' as any }
+      ]);
+
+      expect(report.results.map(({ index, userId, success, status }) => ({ index, userId, success, status }))).toEqual([
+        { index: 0, userId: 'a', success: true, status: 201 },
+        { index: 1, userId: 'bad', success: false, status: 409 },
+        { index: 2, userId: 'c', success: false, status: undefined }
+      ]);
+      expect(report.results[1].error).toBeInstanceOf(VectorizeAPIError);
+      expect(report.results[2].error?.code).toBe('INVALID_ACTION');
+      expect(report).toMatchObject({ succeeded: 1, failed: 2, skipped: 0, pending: [], aborted: false });
+    });
+
+    it('resumes from a checkpoint, keeping operations of the same user and action apart', async () => {
+      const sent: string[] = [];
+      let failSecond = true;
+      const { client } = clientHandling(async body => {
+        if (body.name === 'second' && failSecond) {
+          return new Response(null, { status: 500 });
+        }
+        sent.push(body.name);
+        return new Response(null, { status: 200 });
+      });
+      const operations = [
+        { userId: 'u1', action: 'edit' as const, payload: { name: 'first' } },
+        { userId: 'u1', action: 'edit' as const, payload: { name: 'second' } }
+      ];
+
+      const first = await client.users.bulk('c1', operations, { concurrency: 1 });
+      failSecond = false;
+      const resumed = await client.users.bulk('c1', operations, { checkpoint: first.checkpoint });
+
+      expect(first.checkpoint).toEqual({ completed: ['index:0'] });
+      expect(resumed).toMatchObject({ succeeded: 1, failed: 0, skipped: 1 });
+      expect(resumed.results[0].index).toBe(1);
+      expect(sent).toEqual(['first', 'second']);
+    });
+
+    it('keys checkpoints by the id of the operation when it has one', async () => {
+      const { client } = clientHandling(async () => new Response(null, { status: 200 }));
+      const onResult = vi.fn();
+
+      const report = await client.users.bulk('c1', [
+        { id: 'edit-1', userId: 'u1', action: 'edit' },
+        { id: 'edit-2', userId: 'u1', action: 'edit' }
+      ], { concurrency: 1, onResult });
+
+      expect(report.checkpoint.completed).toEqual(['id:edit-1', 'id:edit-2']);
+      expect(onResult).toHaveBeenLastCalledWith(expect.objectContaining({ index: 1 }), report.checkpoint);
+    });
+
+    it('reports operations in flight when the run is aborted as pending', async () => {
+      const controller = new AbortController();
+      const { client } = clientHandling((body, signal) => body.userId === 'fast'
+        ? Promise.resolve(new Response(null, { status: 200 }))
+        : new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+      const operations = [
+        { userId: 'fast', action: 'add' as const },
+        { userId: 'slow', action: 'add' as const },
+        { userId: 'later', action: 'add' as const }
+      ];
+
+      const running = client.users.bulk('c1', operations, { concurrency: 2, signal: controller.signal });
+      await delay(10);
+      controller.abort();
+      const report = await running;
+
+      expect(report).toMatchObject({ succeeded: 1, failed: 0, skipped: 0, pending: [1, 2], aborted: true });
+      expect(report.checkpoint).toEqual({ completed: ['index:0'] });
+
+      const { client: resumedClient, fetchStub } = clientHandling(async () => new Response(null, { status: 200 }));
+      const resumed = await resumedClient.users.bulk('c1', operations, { checkpoint: report.checkpoint });
+
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      expect(resumed).toMatchObject({ succeeded: 2, skipped: 1, aborted: false });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenManager } from '../../../src/baseOAuth/core/tokenManager';
+import { OAuthError, RefreshedToken, TokenError, TokenRefresher } from '../../../src/baseOAuth/types';
+
+/**
+ * Creates a refresher that hands out access-1, access-2, … valid for an hour
+ */
+function countingRefresher() {
+  let count = 0;
+  return vi.fn<TokenRefresher>(async () => {
+    count++;
+    return { access_token: `access-${count}`, expires_in: 3600, token_type: 'Bearer' };
+  });
+}
+
+describe('TokenManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getAccessToken', () => {
+    it('returns the stored access token while it is outside the skew', async () => {
+      const refresher = countingRefresher();
+      const manager = new TokenManager({ refreshers: { drive: refresher }, skewMs: 60_000 });
+      await manager.setTokens('user', 'drive', { access_token: 'stored', refresh_token: 'refresh', expires_in: 3600 });
+
+      vi.setSystemTime(new Date('2026-01-01T00:58:59Z'));
+
+      expect(await manager.getAccessToken('user', 'drive')).toBe('stored');
+      expect(refresher).not.toHaveBeenCalled();
+    });
+
+    it('refreshes the access token once it expires within the skew', async () => {
+      const refresher = countingRefresher();
+      const manager = new TokenManager({ refreshers: { drive: refresher }, skewMs: 60_000 });
+      await manager.setTokens('user', 'drive', { access_token: 'stored', refresh_token: 'refresh', expires_in: 3600 });
+
+      vi.setSystemTime(new Date('2026-01-01T00:59:00Z'));
+
+      expect(await manager.getAccessToken('user', 'drive')).toBe('access-1');
+      expect(refresher).toHaveBeenCalledWith('refresh', expect.anything());
+      expect(await manager.getTokens('user', 'drive')).toEqual({
+        accessToken: 'access-1',
+        refreshToken: 'refresh',
+        expiresAt: new Date('2026-01-01T01:59:00Z').getTime(),
+        tokenType: 'Bearer'
+      });
+    });
+
+    it('refreshes when only a refresh token is stored', async () => {
+      const manager = new TokenManager({ refreshers: { drive: countingRefresher() } });
+      await manager.setTokens('user', 'drive', 'refresh');
+
+      expect(await manager.getAccessToken('user', 'drive')).toBe('access-1');
+    });
+
+    it('keeps a rotated refresh token', async () => {
+      const refresher = vi.fn<TokenRefresher>(async () => ({ access_token: 'access', refresh_token: 'rotated' }));
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('user', 'drive', 'refresh');
+
+      await manager.getAccessToken('user', 'drive');
+
+      expect((await manager.getTokens('user', 'drive'))?.refreshToken).toBe('rotated');
+    });
+
+    it('rejects when no tokens are stored', async () => {
+      const manager = new TokenManager();
+
+      await expect(manager.getAccessToken('user', 'drive')).rejects.toBeInstanceOf(TokenError);
+    });
+  });
+
+  describe('refresh', () => {
+    it('merges concurrent refreshes of the same user and connector', async () => {
+      let resolveRefresh!: (token: RefreshedToken) => void;
+      const refresher = vi.fn<TokenRefresher>(() => new Promise(resolve => {
+        resolveRefresh = resolve;
+      }));
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('user', 'drive', 'refresh');
+
+      const first = manager.getAccessToken('user', 'drive');
+      const second = manager.getAccessToken('user', 'drive');
+      const third = manager.refresh('user', 'drive');
+      await vi.waitFor(() => expect(refresher).toHaveBeenCalled());
+      resolveRefresh({ access_token: 'shared' });
+
+      expect(await first).toBe('shared');
+      expect(await second).toBe('shared');
+      expect((await third).accessToken).toBe('shared');
+      expect(refresher).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not merge refreshes of different users', async () => {
+      const refresher = countingRefresher();
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('a', 'drive', 'refresh-a');
+      await manager.setTokens('b', 'drive', 'refresh-b');
+
+      await Promise.all([manager.refresh('a', 'drive'), manager.refresh('b', 'drive')]);
+
+      expect(refresher).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts a new refresh once the previous one settled', async () => {
+      const refresher = countingRefresher();
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('user', 'drive', 'refresh');
+
+      await manager.refresh('user', 'drive');
+      const token = await manager.refresh('user', 'drive');
+
+      expect(token.accessToken).toBe('access-2');
+      expect(refresher).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects an aborted caller without failing the shared refresh', async () => {
+      let resolveRefresh!: (token: RefreshedToken) => void;
+      const refresher = vi.fn<TokenRefresher>(() => new Promise(resolve => {
+        resolveRefresh = resolve;
+      }));
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('user', 'drive', 'refresh');
+      const controller = new AbortController();
+
+      const aborted = manager.refresh('user', 'drive', { signal: controller.signal }).catch(error => error);
+      const waiting = manager.refresh('user', 'drive');
+      controller.abort();
+      await vi.waitFor(() => expect(refresher).toHaveBeenCalled());
+      resolveRefresh({ access_token: 'shared' });
+
+      expect(await aborted).toMatchObject({ code: 'ABORTED' });
+      expect((await waiting).accessToken).toBe('shared');
+    });
+  });
+
+  describe('events', () => {
+    it('emits a refresh event with the new tokens', async () => {
+      const manager = new TokenManager({ refreshers: { drive: countingRefresher() } });
+      await manager.setTokens('user', 'drive', 'refresh');
+      const onRefresh = vi.fn();
+      manager.on('refresh', onRefresh);
+
+      await manager.refresh('user', 'drive');
+
+      expect(onRefresh).toHaveBeenCalledWith({
+        userId: 'user',
+        connector: 'drive',
+        token: expect.objectContaining({ accessToken: 'access-1', refreshToken: 'refresh' })
+      });
+    });
+
+    it('emits an error event and rejects with a TokenError when the refresher fails', async () => {
+      const refresher = vi.fn<TokenRefresher>(async () => {
+        throw new Error('invalid_grant');
+      });
+      const manager = new TokenManager({ refreshers: { drive: refresher } });
+      await manager.setTokens('user', 'drive', 'refresh');
+      const onError = vi.fn();
+      manager.on('error', onError);
+
+      const error = await manager.getAccessToken('user', 'drive').catch(error => error);
+
+      expect(error).toBeInstanceOf(TokenError);
+      expect(error.message).toBe('invalid_grant');
+      expect(onError).toHaveBeenCalledWith({ userId: 'user', connector: 'drive', error });
+    });
+
+    it('keeps the OAuthError of the refresher', async () => {
+      const failure = new OAuthError('Revoked', 'TOKEN_REVOKED');
+      const manager = new TokenManager({ refreshers: { drive: async () => { throw failure; } } });
+      await manager.setTokens('user', 'drive', 'refresh');
+
+      await expect(manager.refresh('user', 'drive')).rejects.toBe(failure);
+    });
+
+    it('emits an error event when no refresher is registered', async () => {
+      const manager = new TokenManager();
+      await manager.setTokens('user', 'drive', 'refresh');
+      const onError = vi.fn();
+      manager.on('error', onError);
+
+      await expect(manager.refresh('user', 'drive')).rejects.toThrow('No token refresher registered for connector drive');
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops calling a listener after it is removed and ignores failing listeners', async () => {
+      const manager = new TokenManager({ refreshers: { drive: countingRefresher() } });
+      await manager.setTokens('user', 'drive', 'refresh');
+      const removed = vi.fn();
+      const unsubscribe = manager.on('refresh', removed);
+      manager.on('refresh', () => {
+        throw new Error('listener failed');
+      });
+      unsubscribe();
+
+      await expect(manager.refresh('user', 'drive')).resolves.toMatchObject({ accessToken: 'access-1' });
+      expect(removed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTranslationScript,
+  createTranslator,
+  DEFAULT_MESSAGES,
+  registerMessages
+} from '../../../src/baseOAuth/ui/i18n';
+
+registerMessages('pl', {
+  pickerFilesSelected: {
+    one: 'Wybrano {count} element',
+    few: 'Wybrano {count} elementy',
+    many: 'Wybrano {count} elementów',
+    other: 'Wybrano {count} elementu'
+  },
+  pickerClose: 'Zamknij'
+});
+registerMessages('pt', { pickerClose: 'Fechar', pickerHeading: 'Arquivos selecionados' });
+registerMessages('pt-BR', { pickerClose: 'Fechar janela' });
+
+describe('createTranslator', () => {
+  it('picks the plural form of the locale', () => {
+    const { t } = createTranslator('pl');
+
+    expect(t('pickerFilesSelected', { count: 1 })).toBe('Wybrano 1 element');
+    expect(t('pickerFilesSelected', { count: 3 })).toBe('Wybrano 3 elementy');
+    expect(t('pickerFilesSelected', { count: 5 })).toBe('Wybrano 5 elementów');
+    expect(t('pickerFilesSelected', { count: 22 })).toBe('Wybrano 22 elementy');
+  });
+
+  it('uses the English plural forms by default', () => {
+    const { t } = createTranslator();
+
+    expect(t('pickerFilesSelected', { count: 1 })).toBe('1 item selected');
+    expect(t('pickerFilesSelected', { count: 0 })).toBe('0 items selected');
+    expect(t('pickerFilesSelected', { count: 2 })).toBe('2 items selected');
+  });
+
+  it('falls back to the other form when the locale lacks a plural category', () => {
+    const { t } = createTranslator('pl', { pickerFilesSelected: { one: '{count} plik', other: '{count} pliki' } });
+
+    expect(t('pickerFilesSelected', { count: 5 })).toBe('5 pliki');
+  });
+
+  it('falls back from the region to the language and then to English', () => {
+    const { t } = createTranslator('pt-BR');
+
+    expect(t('pickerClose')).toBe('Fechar janela');
+    expect(t('pickerHeading')).toBe('Arquivos selecionados');
+    expect(t('pickerFinishSelection')).toBe(DEFAULT_MESSAGES.pickerFinishSelection);
+  });
+
+  it('falls back to English for unknown and invalid locales', () => {
+    expect(createTranslator('xx').t('pickerClose')).toBe('Close');
+
+    const invalid = createTranslator('not a locale!');
+    expect(invalid.locale).toBe('en');
+    expect(invalid.t('errorWindowCloses')).toBe('This window will close automatically.');
+  });
+
+  it('lets overrides take precedence over registered translations', () => {
+    expect(createTranslator('pl', { pickerClose: 'Zamknij okno' }).t('pickerClose')).toBe('Zamknij okno');
+  });
+
+  it('fills in placeholders and keeps unknown ones', () => {
+    const { t } = createTranslator('en', { pickerRemoveFile: 'Remove {name} from {list}' });
+
+    expect(t('pickerRemoveFile', { name: 'Report.pdf' })).toBe('Remove Report.pdf from {list}');
+  });
+
+  it('sets the text direction of right-to-left languages', () => {
+    expect(createTranslator('ar').dir).toBe('rtl');
+    expect(createTranslator('he-IL').dir).toBe('rtl');
+    expect(createTranslator('fa').dir).toBe('rtl');
+    expect(createTranslator('en').dir).toBe('ltr');
+    expect(createTranslator('de-AT').dir).toBe('ltr');
+  });
+
+  it('canonicalizes the locale', () => {
+    expect(createTranslator('PT-br').locale).toBe('pt-BR');
+  });
+});
+
+describe('createTranslationScript', () => {
+  it('translates in the page like the translator does', () => {
+    const translator = createTranslator('pl');
+    const translate = new Function(`${createTranslationScript(translator)}; return translate;`)();
+
+    expect(translate('pickerFilesSelected', { count: 3 })).toBe(translator.t('pickerFilesSelected', { count: 3 }));
+    expect(translate('pickerRemoveFile', { name: 'a.txt' })).toBe('Remove a.txt');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  escapeCss,
+  escapeHtml,
+  html,
+  nonceAttribute,
+  safeUrl,
+  SafeHtml,
+  serializeForScript,
+  unsafeHtml
+} from '../../../src/baseOAuth/utils/html';
+
+describe('escapeHtml', () => {
+  it('escapes every character that can break out of text or a quoted attribute', () => {
+    expect(escapeHtml('&')).toBe('&amp;');
+    expect(escapeHtml('<')).toBe('&lt;');
+    expect(escapeHtml('>')).toBe('&gt;');
+    expect(escapeHtml('"')).toBe('&quot;');
+    expect(escapeHtml("'")).toBe('&#39;');
+    expect(escapeHtml('`')).toBe('&#96;');
+  });
+
+  it('escapes markup in a value', () => {
+    expect(escapeHtml('<img src=x onerror="alert(1)">')).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+  });
+
+  it('escapes ampersands only once', () => {
+    expect(escapeHtml('&lt;')).toBe('&amp;lt;');
+  });
+
+  it('turns null and undefined into an empty string and other values into text', () => {
+    expect(escapeHtml(null)).toBe('');
+    expect(escapeHtml(undefined)).toBe('');
+    expect(escapeHtml(42)).toBe('42');
+  });
+});
+
+describe('serializeForScript', () => {
+  it('cannot close the script element', () => {
+    const serialized = serializeForScript({ name: '</script><script>alert(1)</script>' });
+
+    expect(serialized).not.toContain('</script>');
+    expect(serialized).not.toContain('<');
+  });
+
+  it('cannot open an HTML comment', () => {
+    expect(serializeForScript('<!--')).not.toContain('<!--');
+  });
+
+  it('escapes the line and paragraph separators', () => {
+    const serialized = serializeForScript('a\u2028b\u2029c');
+
+    expect(serialized).toBe('"a\\u2028b\\u2029c"');
+  });
+
+  it('evaluates back to the original value', () => {
+    const value = { name: '</script><!-- & \u2028\u2029', count: 2, list: [null, true] };
+
+    expect(JSON.parse(serializeForScript(value))).toEqual(value);
+  });
+
+  it('serializes undefined as null', () => {
+    expect(serializeForScript(undefined)).toBe('null');
+  });
+});
+
+describe('safeUrl', () => {
+  it('keeps http and https URLs', () => {
+    expect(safeUrl('https://example.com/logo.png')).toBe('https://example.com/logo.png');
+    expect(safeUrl('http://example.com/')).toBe('http://example.com/');
+  });
+
+  it('rejects javascript: URLs, also when disguised', () => {
+    expect(safeUrl('javascript:alert(1)')).toBe('');
+    expect(safeUrl('JavaScript:alert(1)')).toBe('');
+    expect(safeUrl(' javascript:alert(1)')).toBe('');
+  });
+
+  it('rejects other schemes and invalid URLs', () => {
+    expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBe('');
+    expect(safeUrl('/relative/path')).toBe('');
+    expect(safeUrl(undefined)).toBe('');
+  });
+});
+
+describe('escapeCss', () => {
+  it('cannot close the style element', () => {
+    expect(escapeCss('body { color: red } </style><script>')).not.toContain('</style>');
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated values', () => {
+    const name = '<b onclick="steal()">';
+
+    expect(html`<span title="${name}">${name}</span>`.toString())
+      .toBe('<span title="&lt;b onclick=&quot;steal()&quot;&gt;">&lt;b onclick=&quot;steal()&quot;&gt;</span>');
+  });
+
+  it('keeps the template markup as is', () => {
+    expect(html`<p class="note">Hello</p>`.toString()).toBe('<p class="note">Hello</p>');
+  });
+
+  it('returns SafeHtml', () => {
+    expect(html`<p></p>`).toBeInstanceOf(SafeHtml);
+  });
+
+  it('inserts nested templates without escaping them again', () => {
+    const item = html`<li>${'a & b'}</li>`;
+
+    expect(html`<ul>${item}</ul>`.toString()).toBe('<ul><li>a &amp; b</li></ul>');
+  });
+
+  it('joins arrays and escapes their values', () => {
+    const names = ['<a>', 'b'];
+
+    expect(html`<ul>${names.map(name => html`<li>${name}</li>`)}</ul>`.toString())
+      .toBe('<ul><li>&lt;a&gt;</li><li>b</li></ul>');
+    expect(html`${names}`.toString()).toBe('&lt;a&gt;b');
+  });
+
+  it('inserts unsafeHtml as is', () => {
+    expect(html`<div>${unsafeHtml('<br>')}</div>`.toString()).toBe('<div><br></div>');
+  });
+
+  it('turns null and undefined into nothing', () => {
+    expect(html`<p>${null}${undefined}</p>`.toString()).toBe('<p></p>');
+  });
+});
+
+describe('nonceAttribute', () => {
+  it('creates an escaped nonce attribute', () => {
+    expect(nonceAttribute('abc')).toBe(' nonce="abc"');
+    expect(nonceAttribute('"><script>')).toBe(' nonce="&quot;&gt;&lt;script&gt;"');
+  });
+
+  it('is empty without a nonce', () => {
+    expect(nonceAttribute()).toBe('');
+  });
+});
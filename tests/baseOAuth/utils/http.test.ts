@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Interceptor, OAuthError, TimeoutError } from '../../../src/baseOAuth/types';
+import { sendRequest, setDefaultTransport } from '../../../src/baseOAuth/utils/http';
+
+/**
+ * Creates a fetch stub that answers with the given statuses in turn
+ */
+function fetchReturning(...statuses: (number | Response)[]) {
+  const fetchStub = vi.fn<typeof fetch>();
+  statuses.forEach(status => {
+    fetchStub.mockResolvedValueOnce(typeof status === 'number' ? new Response(null, { status }) : status);
+  });
+  return fetchStub;
+}
+
+/**
+ * Creates a fetch stub that only settles when its request is aborted
+ */
+function hangingFetch() {
+  return vi.fn<typeof fetch>((_url, init) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+}
+
+/**
+ * Creates a response that sends its headers and a first chunk, then never finishes the body
+ */
+function stalledResponse() {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"users": ['));
+    }
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+const noDelay = { baseDelayMs: 0, jitter: false };
+
+describe('sendRequest', () => {
+  afterEach(() => {
+    setDefaultTransport({});
+    vi.useRealTimers();
+  });
+
+  describe('retries', () => {
+    it('retries retryable statuses of idempotent requests', async () => {
+      const fetchStub = fetchReturning(503, 502, 200);
+
+      const response = await sendRequest('https://api.test/items', { method: 'GET' }, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(200);
+      expect(fetchStub).toHaveBeenCalledTimes(3);
+    });
+
+    it('returns the last response once the attempts are used up', async () => {
+      const fetchStub = fetchReturning(503, 503, 503, 200);
+
+      const response = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(503);
+      expect(fetchStub).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry statuses outside retryOnStatus', async () => {
+      const fetchStub = fetchReturning(404, 200);
+
+      const response = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(404);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('makes a single attempt when retries are disabled', async () => {
+      const fetchStub = fetchReturning(503, 200);
+
+      const response = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, retry: false });
+
+      expect(response.status).toBe(503);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries network errors of idempotent requests', async () => {
+      const fetchStub = vi.fn<typeof fetch>()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      const response = await sendRequest('https://api.test/items', { method: 'PUT' }, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(200);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('backoff', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('doubles the delay before every further retry', async () => {
+      const fetchStub = fetchReturning(503, 503, 200);
+
+      const pending = sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        retry: { baseDelayMs: 100, jitter: false }
+      });
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchStub).toHaveBeenCalledTimes(3);
+
+      expect((await pending).status).toBe(200);
+    });
+
+    it('caps the delay at maxDelayMs', async () => {
+      const fetchStub = fetchReturning(503, 200);
+
+      const pending = sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        retry: { baseDelayMs: 1000, maxDelayMs: 250, jitter: false }
+      });
+
+      await vi.advanceTimersByTimeAsync(250);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      expect((await pending).status).toBe(200);
+    });
+
+    it('waits for the Retry-After delay in seconds', async () => {
+      const fetchStub = fetchReturning(new Response(null, { status: 429, headers: { 'Retry-After': '2' } }), 200);
+
+      const pending = sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        retry: { baseDelayMs: 10, jitter: false }
+      });
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      expect((await pending).status).toBe(200);
+    });
+
+    it('waits until a Retry-After date', async () => {
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const fetchStub = fetchReturning(
+        new Response(null, { status: 503, headers: { 'Retry-After': 'Thu, 01 Jan 2026 00:00:03 GMT' } }),
+        200
+      );
+
+      const pending = sendRequest('https://api.test/items', {}, { fetch: fetchStub, retry: { jitter: false } });
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+      expect((await pending).status).toBe(200);
+    });
+
+    it('returns the response when Retry-After exceeds maxDelayMs', async () => {
+      const fetchStub = fetchReturning(new Response(null, { status: 429, headers: { 'Retry-After': '60' } }), 200);
+
+      const response = await sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        retry: { maxDelayMs: 1000 }
+      });
+
+      expect(response.status).toBe(429);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('does not retry POST requests on server errors', async () => {
+      const fetchStub = fetchReturning(503, 200);
+
+      const response = await sendRequest('https://api.test/items', { method: 'POST' }, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(503);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry PATCH requests after a network error', async () => {
+      const fetchStub = vi.fn<typeof fetch>().mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(
+        sendRequest('https://api.test/items', { method: 'PATCH' }, { fetch: fetchStub, retry: noDelay })
+      ).rejects.toThrow('fetch failed');
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries POST requests on 429', async () => {
+      const fetchStub = fetchReturning(429, 200);
+
+      const response = await sendRequest('https://api.test/items', { method: 'POST' }, { fetch: fetchStub, retry: noDelay });
+
+      expect(response.status).toBe(200);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries POST requests that carry an Idempotency-Key', async () => {
+      const fetchStub = fetchReturning(503, 200);
+
+      const response = await sendRequest(
+        'https://api.test/items',
+        { method: 'POST', headers: { 'Idempotency-Key': 'key-1' } },
+        { fetch: fetchStub, retry: noDelay }
+      );
+
+      expect(response.status).toBe(200);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+    });
+
+    it('lets the idempotent option override the method default', async () => {
+      const postStub = fetchReturning(503, 200);
+      const getStub = fetchReturning(503, 200);
+
+      await sendRequest('https://api.test/items', { method: 'POST' }, { fetch: postStub, retry: noDelay, idempotent: true });
+      await sendRequest('https://api.test/items', { method: 'GET' }, { fetch: getStub, retry: noDelay, idempotent: false });
+
+      expect(postStub).toHaveBeenCalledTimes(2);
+      expect(getStub).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeout and cancellation', () => {
+    it('rejects with a TimeoutError when the timeout elapses', async () => {
+      const fetchStub = hangingFetch();
+
+      const error = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, timeoutMs: 20 })
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.code).toBe('TIMEOUT');
+      expect(error.timeoutMs).toBe(20);
+    });
+
+    it('counts the delays between attempts towards the timeout', async () => {
+      const fetchStub = fetchReturning(503, 200);
+
+      const error = await sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        timeoutMs: 20,
+        retry: { baseDelayMs: 10000, jitter: false }
+      }).catch(error => error);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects with an ABORTED OAuthError when the signal is aborted', async () => {
+      const fetchStub = hangingFetch();
+      const controller = new AbortController();
+
+      const pending = sendRequest('https://api.test/items', {}, { fetch: fetchStub, signal: controller.signal });
+      controller.abort();
+      const error = await pending.catch(error => error);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      expect(error.code).toBe('ABORTED');
+    });
+
+    it('applies the timeout to a body that never finishes', async () => {
+      const fetchStub = fetchReturning(stalledResponse());
+
+      const error = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, timeoutMs: 20 })
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeoutMs).toBe(20);
+    });
+
+    it('rejects with an ABORTED OAuthError when the signal is aborted while the body is read', async () => {
+      const controller = new AbortController();
+      const pending = sendRequest('https://api.test/items', {}, {
+        fetch: fetchReturning(stalledResponse()),
+        signal: controller.signal
+      });
+
+      setTimeout(() => controller.abort(), 10);
+      const error = await pending.catch(error => error);
+
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      expect(error.code).toBe('ABORTED');
+    });
+
+    it('resolves with a response whose body can still be read', async () => {
+      const fetchStub = fetchReturning(new Response('{"ok":true}', { status: 201, headers: { 'X-Request-Id': 'req-1' } }));
+
+      const response = await sendRequest('https://api.test/items', {}, { fetch: fetchStub, timeoutMs: 1000 });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('x-request-id')).toBe('req-1');
+      expect(await response.json()).toEqual({ ok: true });
+    });
+
+    it('does not send a request whose signal is already aborted', async () => {
+      const fetchStub = fetchReturning(200);
+
+      await expect(
+        sendRequest('https://api.test/items', {}, { fetch: fetchStub, signal: AbortSignal.abort() })
+      ).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(fetchStub).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transport', () => {
+    it('uses the default transport fetch unless the request brings its own', async () => {
+      const defaultFetch = fetchReturning(200);
+      const requestFetch = fetchReturning(201);
+      setDefaultTransport({ fetch: defaultFetch });
+
+      expect((await sendRequest('https://api.test/a')).status).toBe(200);
+      expect((await sendRequest('https://api.test/b', {}, { fetch: requestFetch })).status).toBe(201);
+      expect(defaultFetch).toHaveBeenCalledTimes(1);
+      expect(requestFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs the default interceptors before the request interceptors, around every attempt', async () => {
+      const calls: string[] = [];
+      const tracing = (name: string): Interceptor => async (request, next) => {
+        calls.push(`${name}:before`);
+        const response = await next(request);
+        calls.push(`${name}:after:${response.status}`);
+        return response;
+      };
+      setDefaultTransport({ interceptors: [tracing('default')] });
+
+      await sendRequest('https://api.test/items', {}, {
+        fetch: fetchReturning(503, 200),
+        interceptors: [tracing('request')],
+        retry: noDelay
+      });
+
+      expect(calls).toEqual([
+        'default:before', 'request:before', 'request:after:503', 'default:after:503',
+        'default:before', 'request:before', 'request:after:200', 'default:after:200'
+      ]);
+    });
+
+    it('sends the request as changed by an interceptor', async () => {
+      const fetchStub = fetchReturning(200);
+
+      await sendRequest('https://api.test/items', { method: 'GET' }, {
+        fetch: fetchStub,
+        interceptors: [(request, next) => next({
+          ...request,
+          init: { ...request.init, headers: { Authorization: 'Bearer token' } }
+        })]
+      });
+
+      expect(fetchStub.mock.calls[0][0]).toBe('https://api.test/items');
+      expect(fetchStub.mock.calls[0][1]?.headers).toEqual({ Authorization: 'Bearer token' });
+    });
+
+    it('lets an interceptor answer without calling fetch', async () => {
+      const fetchStub = fetchReturning(200);
+
+      const response = await sendRequest('https://api.test/items', {}, {
+        fetch: fetchStub,
+        interceptors: [async () => new Response(null, { status: 204 })]
+      });
+
+      expect(response.status).toBe(204);
+      expect(fetchStub).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { diffSelections } from '../../../src/baseOAuth/utils/selection';
+
+const report = { name: 'Report.pdf', mimeType: 'application/pdf' };
+const notes = { name: 'Notes.txt', mimeType: 'text/plain' };
+const budget = { name: 'Budget.xlsx', mimeType: 'application/vnd.ms-excel' };
+
+describe('diffSelections', () => {
+  it('sorts the entries into added, removed and unchanged', () => {
+    const diff = diffSelections({ a: report, b: notes }, { b: notes, c: budget });
+
+    expect(diff).toEqual({
+      added: { c: budget },
+      removed: { a: report },
+      unchanged: { b: notes }
+    });
+  });
+
+  it('keeps the new metadata of unchanged entries', () => {
+    const renamed = { ...notes, name: 'Notes (1).txt' };
+
+    expect(diffSelections({ b: notes }, { b: renamed }).unchanged).toEqual({ b: renamed });
+  });
+
+  it('treats every entry as added without a previous selection', () => {
+    const expected = { added: { a: report, b: notes }, removed: {}, unchanged: {} };
+
+    expect(diffSelections(undefined, { a: report, b: notes })).toEqual(expected);
+    expect(diffSelections(null, { a: report, b: notes })).toEqual(expected);
+  });
+
+  it('treats every entry as removed when the new selection is empty', () => {
+    expect(diffSelections({ a: report }, undefined)).toEqual({ added: {}, removed: { a: report }, unchanged: {} });
+  });
+
+  it('only looks at the own keys of the selections', () => {
+    const diff = diffSelections({}, { toString: report, constructor: notes });
+
+    expect(diff.added).toEqual({ toString: report, constructor: notes });
+    expect(diff.unchanged).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { BaseOAuth } from '../../../src/baseOAuth/core/oauth';
+import { StateError } from '../../../src/baseOAuth/types';
+import {
+  clearOAuthStateCookie,
+  generateRandomString,
+  OAUTH_STATE_COOKIE,
+  verifyOAuthState
+} from '../../../src/baseOAuth/utils/state';
+
+/**
+ * Exposes the callback response of the base class
+ */
+class TestOAuth extends BaseOAuth {
+  static respond(request: Request): Response {
+    return this.createHTMLResponse('<p>Done</p>', request);
+  }
+}
+
+/**
+ * Creates a callback request with the given state and Cookie header
+ */
+function callbackRequest(state: string | null, cookie?: string): Request {
+  const url = new URL('https://app.test/api/callback?code=abc');
+  if (state !== null) {
+    url.searchParams.set('state', state);
+  }
+  return new Request(url, { headers: cookie ? { Cookie: cookie } : {} });
+}
+
+/**
+ * Creates a fresh state of a flow and the cookie that expects it
+ */
+function startedFlow() {
+  const flowId = generateRandomString(16);
+  const state = `${flowId}.${generateRandomString()}`;
+  return { flowId, state, cookie: `${OAUTH_STATE_COOKIE}_${flowId}=${encodeURIComponent(state)}` };
+}
+
+/**
+ * Gets the StateError thrown while verifying a request
+ */
+function verifyError(request: Request): StateError {
+  try {
+    verifyOAuthState(request);
+  } catch (error) {
+    return error as StateError;
+  }
+  throw new Error('Expected the state to be rejected');
+}
+
+describe('verifyOAuthState', () => {
+  it('returns the state when it matches the cookie of its flow', () => {
+    const { state, cookie } = startedFlow();
+
+    expect(verifyOAuthState(callbackRequest(state, `other=1; ${cookie}`))).toBe(state);
+  });
+
+  it('rejects a callback without a state', () => {
+    const error = verifyError(callbackRequest(null));
+
+    expect(error).toBeInstanceOf(StateError);
+    expect(error.code).toBe('INVALID_STATE');
+    expect(error.details).toEqual({ reason: 'missing' });
+  });
+
+  it('rejects a callback without the state cookie', () => {
+    const { state } = startedFlow();
+
+    expect(verifyError(callbackRequest(state)).details).toEqual({ reason: 'missing' });
+  });
+
+  it('rejects a state that does not match the cookie', () => {
+    const { flowId, cookie } = startedFlow();
+
+    const error = verifyError(callbackRequest(`${flowId}.${generateRandomString()}`, cookie));
+
+    expect(error.details).toEqual({ reason: 'mismatch' });
+  });
+
+  it('does not read the cookie of another flow', () => {
+    const { state } = startedFlow();
+    const other = startedFlow();
+
+    expect(verifyError(callbackRequest(state, other.cookie)).details).toEqual({ reason: 'missing' });
+  });
+
+  it('rejects a state that is used twice', () => {
+    const { state, cookie } = startedFlow();
+
+    verifyOAuthState(callbackRequest(state, cookie));
+    const error = verifyError(callbackRequest(state, cookie));
+
+    expect(error.details).toEqual({ reason: 'replayed' });
+  });
+
+  it('rejects a malformed flowId.random state', () => {
+    const { flowId, cookie } = startedFlow();
+
+    for (const state of [`${flowId}.`, `.${flowId}`, `${flowId}.a.b`, `${flowId};x=1.abc`, `${flowId}.a b`]) {
+      expect(verifyError(callbackRequest(state, cookie)).details).toEqual({ reason: 'malformed' });
+    }
+  });
+
+  it('accepts a state without a flow id against the base cookie', () => {
+    const state = generateRandomString();
+
+    expect(verifyOAuthState(callbackRequest(state, `${OAUTH_STATE_COOKIE}=${state}`))).toBe(state);
+  });
+});
+
+describe('state cookie', () => {
+  it('is cleared by the callback response of its flow', () => {
+    const { flowId, state, cookie } = startedFlow();
+
+    const response = TestOAuth.respond(callbackRequest(state, cookie));
+
+    expect(response.headers.getSetCookie()).toContain(clearOAuthStateCookie(flowId));
+    expect(clearOAuthStateCookie(flowId)).toBe(`${OAUTH_STATE_COOKIE}_${flowId}=; Max-Age=0; Path=/; SameSite=Lax`);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TokenError } from '../../../src/baseOAuth/types';
+import { base64UrlEncode } from '../../../src/baseOAuth/utils/state';
+import {
+  DEFAULT_TOKEN_HANDLE_TTL_SECONDS,
+  sealTokenHandle,
+  unsealTokenHandle
+} from '../../../src/baseOAuth/utils/tokenBroker';
+
+const secret = 'broker-secret';
+
+/**
+ * Decodes a handle into its bytes
+ */
+function handleBytes(handle: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(handle, 'base64url'));
+}
+
+describe('sealTokenHandle / unsealTokenHandle', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens a handle with the same secret and connector', async () => {
+    const handle = await sealTokenHandle({ connector: 'google-drive', token: 'refresh-token' }, secret);
+
+    const payload = await unsealTokenHandle(handle, secret, 'google-drive');
+
+    expect(payload.connector).toBe('google-drive');
+    expect(payload.token).toBe('refresh-token');
+    expect(payload.exp! - payload.iat!).toBe(DEFAULT_TOKEN_HANDLE_TTL_SECONDS);
+  });
+
+  it('does not reveal the token in the handle', async () => {
+    const handle = await sealTokenHandle({ connector: 'dropbox', token: 'refresh-token' }, secret);
+
+    expect(Buffer.from(handle, 'base64url').toString('latin1')).not.toContain('refresh-token');
+  });
+
+  it('expires after minutes by default', () => {
+    expect(DEFAULT_TOKEN_HANDLE_TTL_SECONDS).toBeLessThanOrEqual(60 * 60);
+  });
+
+  it('rejects a handle once it expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const handle = await sealTokenHandle({ connector: 'dropbox', token: 'refresh-token' }, secret, 60);
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    await expect(unsealTokenHandle(handle, secret)).resolves.toMatchObject({ token: 'refresh-token' });
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    const error = await unsealTokenHandle(handle, secret).catch(error => error);
+    expect(error).toBeInstanceOf(TokenError);
+    expect(error.details).toEqual({ reason: 'expired' });
+  });
+
+  it('rejects a tampered handle', async () => {
+    const handle = await sealTokenHandle({ connector: 'dropbox', token: 'refresh-token' }, secret);
+    const bytes = handleBytes(handle);
+    bytes[bytes.length - 1] ^= 1;
+
+    await expect(unsealTokenHandle(base64UrlEncode(bytes), secret)).rejects.toThrow('Invalid token handle');
+    await expect(unsealTokenHandle('not-a-handle', secret)).rejects.toBeInstanceOf(TokenError);
+  });
+
+  it('rejects a handle sealed with another secret', async () => {
+    const handle = await sealTokenHandle({ connector: 'dropbox', token: 'refresh-token' }, 'other-secret');
+
+    await expect(unsealTokenHandle(handle, secret)).rejects.toThrow('Invalid token handle');
+  });
+
+  it('rejects a handle of another connector', async () => {
+    const handle = await sealTokenHandle({ connector: 'dropbox', token: 'refresh-token' }, secret);
+
+    await expect(unsealTokenHandle(handle, secret, 'google-drive'))
+      .rejects.toThrow('Token handle does not belong to the google-drive connector');
+  });
+});
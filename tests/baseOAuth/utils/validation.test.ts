@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { OAuthError } from '../../../src/baseOAuth/types';
+import { createErrorPageHTML, createErrorResponse } from '../../../src/baseOAuth/utils/validation';
+
+describe('createErrorPageHTML', () => {
+  it('follows the theme of the configuration', () => {
+    const html = createErrorPageHTML(new OAuthError('Denied', 'ACCESS_DENIED'), undefined, {
+      theme: { colors: { error: '#aa0000' }, productName: 'Acme' }
+    });
+
+    expect(html).toContain('--vc-color-error: #aa0000;');
+    expect(html).toContain('Acme');
+  });
+
+  it('uses the locale and messages of the configuration', () => {
+    const html = createErrorPageHTML(new OAuthError('Denied', 'ACCESS_DENIED'), undefined, {
+      locale: 'ar',
+      messages: { errorTitle: 'خطأ في المصادقة', errorWindowCloses: 'ستغلق هذه النافذة تلقائيًا.' }
+    });
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('خطأ في المصادقة');
+    expect(html).toContain('ستغلق هذه النافذة تلقائيًا.');
+    expect(html).not.toContain('This window will close automatically.');
+  });
+
+  it('escapes the error message and reports the error to the opener', () => {
+    const html = createErrorPageHTML(new OAuthError('<img src=x onerror=alert(1)>', 'CALLBACK_ERROR'), 'abc');
+
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('<script nonce="abc">');
+    expect(html).toContain("sendFlowMessage('error'");
+  });
+});
+
+describe('createErrorResponse', () => {
+  it('returns the error page as HTML', async () => {
+    const response = createErrorResponse(new OAuthError('Denied', 'ACCESS_DENIED'), undefined, { locale: 'de' });
+
+    expect(response.headers.get('content-type')).toBe('text/html');
+    expect(await response.text()).toContain('<html lang="de" dir="ltr">');
+  });
+});
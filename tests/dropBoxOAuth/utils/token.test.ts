@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TokenError } from '../../../src/baseOAuth/types';
+import { setDefaultTransport } from '../../../src/baseOAuth/utils/http';
+import { revokeDropboxToken } from '../../../src/dropBoxOAuth/utils/token';
+
+/**
+ * Answers the revocation request with the given status and JSON body
+ */
+function revokeAnswering(status: number, body: unknown = null) {
+  const fetchStub = vi.fn<typeof fetch>().mockResolvedValue(
+    new Response(body === null ? null : JSON.stringify(body), { status })
+  );
+  setDefaultTransport({ fetch: fetchStub });
+  return fetchStub;
+}
+
+describe('revokeDropboxToken', () => {
+  afterEach(() => {
+    setDefaultTransport({});
+  });
+
+  it('revokes the grant of the access token', async () => {
+    const fetchStub = revokeAnswering(200);
+
+    await revokeDropboxToken('access-token');
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(url).toBe('https://api.dropboxapi.com/2/auth/token/revoke');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer access-token');
+  });
+
+  it('treats an invalid or expired access token as already revoked', async () => {
+    revokeAnswering(401, { error_summary: 'invalid_access_token/..', error: { '.tag': 'invalid_access_token' } });
+    await expect(revokeDropboxToken('access-token')).resolves.toBeUndefined();
+
+    revokeAnswering(401, { error_summary: 'expired_access_token/..', error: { '.tag': 'expired_access_token' } });
+    await expect(revokeDropboxToken('access-token')).resolves.toBeUndefined();
+  });
+
+  it('throws on other 401 errors', async () => {
+    revokeAnswering(401, { error_summary: 'user_suspended/..', error: { '.tag': 'user_suspended' } });
+
+    const error = await revokeDropboxToken('access-token').catch(error => error);
+
+    expect(error).toBeInstanceOf(TokenError);
+    expect(error.message).toBe('Token revocation failed: user_suspended/..');
+  });
+
+  it('throws on a 401 without an error body', async () => {
+    revokeAnswering(401);
+
+    await expect(revokeDropboxToken('access-token')).rejects.toBeInstanceOf(TokenError);
+  });
+});
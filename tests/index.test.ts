@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { OAuthError, StateError, VectorizeAPIError } from '../src';
+
+describe('package root', () => {
+  it('exports the error classes as values', () => {
+    const error = new VectorizeAPIError('Not found', 'NOT_FOUND', 404);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(new StateError('Replayed')).toBeInstanceOf(OAuthError);
+  });
+});
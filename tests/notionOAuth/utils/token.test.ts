@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TokenError } from '../../../src/baseOAuth/types';
+import { setDefaultTransport } from '../../../src/baseOAuth/utils/http';
+import { revokeNotionToken } from '../../../src/notionOAuth/utils/token';
+
+/**
+ * Answers the revocation request with the given status and JSON body
+ */
+function revokeAnswering(status: number, body: unknown = {}) {
+  const fetchStub = vi.fn<typeof fetch>().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+  setDefaultTransport({ fetch: fetchStub });
+  return fetchStub;
+}
+
+describe('revokeNotionToken', () => {
+  afterEach(() => {
+    setDefaultTransport({});
+  });
+
+  it('revokes the token with the client credentials', async () => {
+    const fetchStub = revokeAnswering(200);
+
+    await revokeNotionToken('access-token', 'client', 'secret');
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(url).toBe('https://api.notion.com/v1/oauth/revoke');
+    expect((init?.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('client:secret')}`);
+    expect(init?.body).toBe(JSON.stringify({ token: 'access-token' }));
+  });
+
+  it('treats a token Notion reports as invalid as already revoked', async () => {
+    revokeAnswering(400, { error: 'invalid_grant' });
+    await expect(revokeNotionToken('access-token', 'client', 'secret')).resolves.toBeUndefined();
+
+    revokeAnswering(401, { object: 'error', status: 401, code: 'unauthorized', message: 'API token is invalid.' });
+    await expect(revokeNotionToken('access-token', 'client', 'secret')).resolves.toBeUndefined();
+  });
+
+  it('throws when the client credentials are rejected', async () => {
+    revokeAnswering(401, { error: 'invalid_client' });
+
+    const error = await revokeNotionToken('access-token', 'client', 'wrong').catch(error => error);
+
+    expect(error).toBeInstanceOf(TokenError);
+    expect(error.message).toBe('Token revocation failed: invalid_client');
+  });
+
+  it('throws on a 401 without an error body', async () => {
+    const fetchStub = vi.fn<typeof fetch>().mockResolvedValue(new Response('Unauthorized', { status: 401 }));
+    setDefaultTransport({ fetch: fetchStub });
+
+    await expect(revokeNotionToken('access-token', 'client', 'secret')).rejects.toBeInstanceOf(TokenError);
+  });
+});